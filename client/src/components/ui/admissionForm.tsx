@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { type AdmissionData, type AnalysisResult } from "@shared/schema";
+import { type AdmissionData, type AnalysisResult, type CollegeSelection } from "@shared/schema";
 import { ProgressIndicator } from "./progressIndicator";
 import { AcademicInfo } from "./form-steps/academicInfo";
 import { Extracurriculars } from "./form-steps/extracurriculars";
@@ -19,6 +19,7 @@ export function AdmissionForm() {
   const [formData, setFormData] = useState<AdmissionData>({
     academics: {
       gpa: "",
+      gpaScale: "4.0",
       weightedGpa: "",
       sat: "",
       act: "",
@@ -30,6 +31,7 @@ export function AdmissionForm() {
       role: "",
       yearsInvolved: "",
       hoursPerWeek: "",
+      weeksPerYear: "",
       description: "",
     }],
     honorsAwards: [{
@@ -37,7 +39,7 @@ export function AdmissionForm() {
       level: "school",
       year: "",
     }],
-    colleges: [""],
+    colleges: [{ name: "" }],
     major: "",
   });
   const [results, setResults] = useState<AnalysisResult | null>(null);
@@ -121,6 +123,16 @@ export function AdmissionForm() {
     mutate(formData);
   };
 
+  // Add a suggested college to the list and re-run the analysis with it
+  const handleAddCollege = (college: CollegeSelection) => {
+    const updatedFormData = {
+      ...formData,
+      colleges: [...formData.colleges.filter((existing) => existing.name.trim() !== ""), college],
+    };
+    setFormData(updatedFormData);
+    mutate(updatedFormData);
+  };
+
   const resetForm = () => {
     setCurrentStep(1);
     setFormSubmitted(false);
@@ -128,6 +140,7 @@ export function AdmissionForm() {
     setFormData({
       academics: {
         gpa: "",
+        gpaScale: "4.0",
         weightedGpa: "",
         sat: "",
         act: "",
@@ -139,6 +152,7 @@ export function AdmissionForm() {
         role: "",
         yearsInvolved: "",
         hoursPerWeek: "",
+        weeksPerYear: "",
         description: "",
       }],
       honorsAwards: [{
@@ -146,7 +160,7 @@ export function AdmissionForm() {
         level: "school",
         year: "",
       }],
-      colleges: [""],
+      colleges: [{ name: "" }],
       major: "",
     });
   };
@@ -154,7 +168,15 @@ export function AdmissionForm() {
   // Main content based on step or if form is submitted
   const renderContent = () => {
     if (formSubmitted && results) {
-      return <ResultsDisplay results={results} onReset={resetForm} />;
+      return (
+        <ResultsDisplay 
+          results={results} 
+          onReset={resetForm} 
+          formData={formData} 
+          onAddCollege={handleAddCollege} 
+          isUpdating={isPending} 
+        />
+      );
     }
 
     switch (currentStep) {
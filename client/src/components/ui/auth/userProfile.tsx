@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { SavedResult, AdmissionData, AnalysisResult } from "@shared/schema";
+import { SavedResult, AdmissionData, AnalysisResult, collegeSelectionSchema } from "@shared/schema";
 import { signOut } from "@/lib/supabase";
 
 // Define a more explicit type since the db type might be stored as jsonb
@@ -40,7 +40,14 @@ export function UserProfile({ user, onLogout }: UserProfileProps) {
         });
 
         if (response.success) {
-          setUserAssessments(response.results);
+          // Assessments saved before colleges carried an ID list them as plain names
+          setUserAssessments(response.results.map((result) => ({
+            ...result,
+            formData: {
+              ...result.formData,
+              colleges: result.formData.colleges.map((college) => collegeSelectionSchema.parse(college)),
+            },
+          })));
         } else {
           toast({
             variant: "destructive",
@@ -149,7 +156,7 @@ export function UserProfile({ user, onLogout }: UserProfileProps) {
                       <div className="bg-muted p-4">
                         <div className="flex justify-between items-center mb-2">
                           <h3 className="font-medium">
-                            Assessment for {assessment.formData.colleges.join(", ")}
+                            Assessment for {assessment.formData.colleges.map(college => college.name).join(", ")}
                           </h3>
                           <span className="text-sm text-muted-foreground">
                             {formatDate(assessment.createdAt)}
@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList
+} from "@/components/ui/command";
+import { type CollegeSelection } from "@shared/schema";
+
+interface CollegeSearchResult {
+  id: string;
+  name: string;
+  matchedName?: string;
+  state: string;
+  control: "public" | "private";
+  acceptanceRate: number;
+}
+
+interface CollegeComboboxProps {
+  value: CollegeSelection;
+  onChange: (value: CollegeSelection) => void;
+  placeholder?: string;
+}
+
+export function CollegeCombobox({ value, onChange, placeholder = "Search for a college" }: CollegeComboboxProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  // Wait for the user to pause typing before hitting the search endpoint
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 200);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data, isFetching } = useQuery<{ success: boolean; results: CollegeSearchResult[] }>({
+    queryKey: [`/api/colleges/search?q=${encodeURIComponent(debouncedQuery)}`],
+    enabled: debouncedQuery.length > 0,
+  });
+  const results = debouncedQuery ? data?.results || [] : [];
+
+  const selectCollege = (college: CollegeSelection) => {
+    onChange(college);
+    setQuery("");
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="flex-1 justify-between font-normal"
+        >
+          <span className={cn("truncate", !value.name && "text-muted-foreground")}>
+            {value.name || placeholder}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[var(--radix-popover-trigger-width)] p-0" align="start">
+        {/* Results are already ranked by the server, so cmdk's own filtering is turned off */}
+        <Command shouldFilter={false}>
+          <CommandInput
+            placeholder="Type a name or abbreviation (e.g., UCLA)"
+            value={query}
+            onValueChange={setQuery}
+          />
+          <CommandList>
+            {debouncedQuery && !isFetching && results.length === 0 && (
+              <CommandEmpty>No colleges in our catalog match "{debouncedQuery}".</CommandEmpty>
+            )}
+            {results.length > 0 && (
+              <CommandGroup heading="Colleges">
+                {results.map((college) => (
+                  <CommandItem
+                    key={college.id}
+                    value={college.id}
+                    onSelect={() => selectCollege({ id: college.id, name: college.name })}
+                  >
+                    <Check className={cn("mr-2 h-4 w-4", value.id === college.id ? "opacity-100" : "opacity-0")} />
+                    <div className="flex flex-col">
+                      <span>{college.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {college.matchedName ? `${college.matchedName} • ` : ""}
+                        {college.state} • {college.control === "public" ? "Public" : "Private"}
+                      </span>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {query.trim() && (
+              <CommandGroup heading="Not listed?">
+                <CommandItem
+                  value={`custom:${query.trim()}`}
+                  onSelect={() => selectCollege({ name: query.trim() })}
+                >
+                  Use "{query.trim()}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,14 +1,47 @@
-import { Dispatch, SetStateAction } from "react";
+import { Dispatch, SetStateAction, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
 import { z } from "zod";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm } from "react-hook-form";
+import { PlusCircle, X } from "lucide-react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { academicInfoSchema, type AdmissionData } from "@shared/schema";
+import {
+  COURSE_LEVEL_LABELS, GPA_SCALE_LABELS, GPA_SCALE_RANGES, GPA_TERM_LABELS, academicInfoSchema, courseGradeSchema, courseLevelSchema,
+  gpaTermSchema, gradeYearSchema, type AdmissionData, type CourseRigor, type GpaScale, type TranscriptCourse, type TranscriptSummary
+} from "@shared/schema";
+import { SchoolContextSection } from "./schoolContext";
+
+// Example value and hint shown for each GPA scale
+const GPA_SCALE_HINTS: Record<GpaScale, { placeholder: string, description: string }> = {
+  "4.0": { placeholder: "3.8", description: "Enter your unweighted GPA on a 4.0 scale" },
+  "5.0": { placeholder: "4.4", description: "Weighted scale where honors/AP A's earn 5.0" },
+  "6.0": { placeholder: "5.1", description: "Weighted scale where AP A's earn 6.0" },
+  "100": { placeholder: "92", description: "Your average on a 100-point scale" },
+  "ib": { placeholder: "6", description: "Your average IB subject grade (1–7)" },
+  "10": { placeholder: "8.7", description: "CGPA on a 10-point scale" },
+  "20": { placeholder: "15.5", description: "Your average on a 20-point scale" },
+};
+
+const COURSE_RIGOR_LABELS: Record<CourseRigor, string> = {
+  low: "Basic Courses",
+  medium: "Some Honors/Advanced",
+  high: "Mostly Honors/Advanced",
+  very_high: "Maximum Rigor Available",
+};
+
+const NO_LETTER_GRADES_MESSAGE = "Add at least one course with a letter grade, or turn off transcript mode to enter your GPA";
+
+// Wait for typing to pause before recomputing the transcript GPA
+const SUMMARY_DELAY_MS = 500;
+
+const EMPTY_COURSE: TranscriptCourse = { name: "", gradeYear: "9", level: "regular", grade: "A" };
 
 interface AcademicInfoProps {
   formData: AdmissionData;
@@ -19,13 +52,108 @@ interface AcademicInfoProps {
 export function AcademicInfo({ formData, setFormData, onNext }: AcademicInfoProps) {
   const form = useForm<z.infer<typeof academicInfoSchema>>({
     resolver: zodResolver(academicInfoSchema),
-    defaultValues: formData.academics,
+    defaultValues: {
+      ...formData.academics,
+      satSittings: formData.academics.satSittings || [],
+      actSittings: formData.academics.actSittings || [],
+      transcript: formData.academics.transcript || [],
+      termGpas: formData.academics.termGpas || [],
+    },
+  });
+  const satSittings = useFieldArray({ control: form.control, name: "satSittings" });
+  const actSittings = useFieldArray({ control: form.control, name: "actSittings" });
+  const transcript = useFieldArray({ control: form.control, name: "transcript" });
+  const termGpas = useFieldArray({ control: form.control, name: "termGpas" });
+  
+  // Transcript mode replaces the self-reported GPA, AP count and rigor with figures computed from the courses
+  const [transcriptMode, setTranscriptMode] = useState(Boolean(formData.academics.transcript?.length));
+  const watchedTranscript = form.watch("transcript");
+  const [summarizedCourses, setSummarizedCourses] = useState<TranscriptCourse[]>([]);
+  
+  useEffect(() => {
+    const timer = setTimeout(
+      () => setSummarizedCourses((watchedTranscript || []).filter((course) => course.name.trim() !== "")),
+      SUMMARY_DELAY_MS
+    );
+    return () => clearTimeout(timer);
+  }, [JSON.stringify(watchedTranscript)]);
+  
+  const { data: summaryData } = useQuery<{ success: boolean; summary: TranscriptSummary }>({
+    queryKey: ["/api/transcript-summary", summarizedCourses],
+    queryFn: () => apiRequest({ url: "/api/transcript-summary", method: "POST", body: { transcript: summarizedCourses } }),
+    enabled: transcriptMode && summarizedCourses.length > 0,
   });
+  const transcriptSummary = transcriptMode && summarizedCourses.length > 0 ? summaryData?.summary : undefined;
+  
+  const handleTranscriptModeChange = (enabled: boolean) => {
+    setTranscriptMode(enabled);
+    if (enabled) {
+      // The GPA is computed on the 4.0 scale; clear the typed one so it can't fail validation out of sight
+      form.setValue("gpaScale", "4.0");
+      form.setValue("gpa", "");
+      form.clearErrors("gpa");
+      // The trend comes from the transcript's grade years instead
+      termGpas.replace([]);
+      if (transcript.fields.length === 0) transcript.append({ ...EMPTY_COURSE });
+    } else {
+      transcript.replace([]);
+    }
+  };
+  
+  // Running totals for each sitting so students can check their entries
+  const watchedSatSittings = form.watch("satSittings") || [];
+  const watchedActSittings = form.watch("actSittings") || [];
+  const gpaScale = form.watch("gpaScale") || "4.0";
+  const satTotal = (index: number) => {
+    const sitting = watchedSatSittings[index];
+    const total = (parseInt(sitting?.readingWriting) || 0) + (parseInt(sitting?.math) || 0);
+    return total > 0 ? total : "—";
+  };
+  const actComposite = (index: number) => {
+    const sitting = watchedActSittings[index];
+    const sections = [sitting?.english, sitting?.math, sitting?.reading, sitting?.science].map(score => parseInt(score) || 0);
+    return sections.every(score => score > 0) ? Math.round(sections.reduce((sum, score) => sum + score, 0) / 4) : "—";
+  };
 
-  function onSubmit(values: z.infer<typeof academicInfoSchema>) {
+  async function onSubmit(values: z.infer<typeof academicInfoSchema>) {
+    let academics = values;
+    if (transcriptMode) {
+      if (!values.transcript?.length) {
+        form.setError("transcript", { message: "Add at least one course, or turn off transcript mode" });
+        return;
+      }
+      // Fill the self-reported fields from the transcript so the review step and what-if simulator show them
+      try {
+        const { summary } = await apiRequest<{ success: boolean; summary: TranscriptSummary }>({
+          url: "/api/transcript-summary",
+          method: "POST",
+          body: { transcript: values.transcript },
+        });
+        if (summary.unweightedGpa === undefined || summary.weightedGpa === undefined) {
+          form.setError("transcript", { message: NO_LETTER_GRADES_MESSAGE });
+          return;
+        }
+        academics = {
+          ...values,
+          gpa: summary.unweightedGpa.toFixed(2),
+          gpaScale: "4.0",
+          weightedGpa: summary.weightedGpa.toFixed(2),
+          apCourses: String(summary.apCourses),
+          courseRigor: summary.courseRigor,
+          termGpas: undefined,
+        };
+      } catch (error) {
+        console.error("Error summarizing transcript:", error);
+        form.setError("transcript", { message: "We couldn't compute your GPA from the transcript. Please try again." });
+        return;
+      }
+    } else {
+      academics = { ...values, transcript: undefined };
+    }
+    
     setFormData((prev) => ({
       ...prev,
-      academics: values,
+      academics,
     }));
     onNext();
   }
@@ -37,47 +165,96 @@ export function AcademicInfo({ formData, setFormData, onNext }: AcademicInfoProp
         
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-            <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
-              <FormField
-                control={form.control}
-                name="gpa"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Unweighted GPA (out of 4.0)</FormLabel>
-                    <FormControl>
-                      <Input placeholder="3.8" {...field} />
-                    </FormControl>
-                    <FormDescription>
-                      Enter your unweighted GPA on a 4.0 scale
-                    </FormDescription>
-                    <FormMessage />
-                  </FormItem>
-                )}
+            <div className="flex items-start space-x-3">
+              <Checkbox
+                id="transcript-mode"
+                checked={transcriptMode}
+                onCheckedChange={(checked) => handleTranscriptModeChange(checked === true)}
               />
+              <div>
+                <label htmlFor="transcript-mode" className="text-sm font-medium text-gray-700 cursor-pointer">
+                  Enter my transcript course by course
+                </label>
+                <p className="text-sm text-gray-500">
+                  We'll compute your GPA, AP/IB count and course rigor from your courses instead of asking for them
+                </p>
+              </div>
+            </div>
+            
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+              {!transcriptMode && (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="gpaScale"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>GPA Scale</FormLabel>
+                        <Select 
+                          onValueChange={field.onChange} 
+                          defaultValue={field.value}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select your school's scale" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {(Object.keys(GPA_SCALE_LABELS) as GpaScale[]).map((scale) => (
+                              <SelectItem key={scale} value={scale}>{GPA_SCALE_LABELS[scale]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          Use the scale printed on your transcript; we convert it for you
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-              <FormField
-                control={form.control}
-                name="weightedGpa"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Weighted GPA (if applicable)</FormLabel>
-                    <FormControl>
-                      <Input placeholder="4.2" {...field} />
-                    </FormControl>
-                    <FormDescription>
-                      If your school uses weighted GPA (typically 5.0 scale)
-                    </FormDescription>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                  <FormField
+                    control={form.control}
+                    name="gpa"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>GPA (out of {GPA_SCALE_RANGES[gpaScale].max})</FormLabel>
+                        <FormControl>
+                          <Input placeholder={GPA_SCALE_HINTS[gpaScale].placeholder} {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          {GPA_SCALE_HINTS[gpaScale].description}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="weightedGpa"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Weighted GPA (if applicable)</FormLabel>
+                        <FormControl>
+                          <Input placeholder="4.2" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          If your school uses weighted GPA (typically 5.0 scale)
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
 
               <FormField
                 control={form.control}
                 name="sat"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>SAT Score (out of 1600)</FormLabel>
+                    <FormLabel>Best SAT Score (out of 1600)</FormLabel>
                     <FormControl>
                       <Input placeholder="1350" {...field} />
                     </FormControl>
@@ -91,7 +268,7 @@ export function AcademicInfo({ formData, setFormData, onNext }: AcademicInfoProp
                 name="act"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>ACT Score (out of 36)</FormLabel>
+                    <FormLabel>Best ACT Score (out of 36)</FormLabel>
                     <FormControl>
                       <Input placeholder="28" {...field} />
                     </FormControl>
@@ -100,48 +277,428 @@ export function AcademicInfo({ formData, setFormData, onNext }: AcademicInfoProp
                 )}
               />
 
-              <FormField
-                control={form.control}
-                name="apCourses"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Number of AP/IB Courses</FormLabel>
-                    <FormControl>
-                      <Input placeholder="5" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              {!transcriptMode && (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="apCourses"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Number of AP/IB Courses</FormLabel>
+                        <FormControl>
+                          <Input placeholder="5" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-              <FormField
-                control={form.control}
-                name="courseRigor"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Overall Course Rigor</FormLabel>
-                    <Select 
-                      onValueChange={field.onChange} 
-                      defaultValue={field.value}
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select course rigor" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="low">Basic Courses</SelectItem>
-                        <SelectItem value="medium">Some Honors/Advanced</SelectItem>
-                        <SelectItem value="high">Mostly Honors/Advanced</SelectItem>
-                        <SelectItem value="very_high">Maximum Rigor Available</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
+                  <FormField
+                    control={form.control}
+                    name="courseRigor"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Overall Course Rigor</FormLabel>
+                        <Select 
+                          onValueChange={field.onChange} 
+                          defaultValue={field.value}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select course rigor" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {(Object.keys(COURSE_RIGOR_LABELS) as CourseRigor[]).map((rigor) => (
+                              <SelectItem key={rigor} value={rigor}>{COURSE_RIGOR_LABELS[rigor]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+            </div>
+
+            {transcriptMode && (
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-800">Transcript</h3>
+                  <p className="text-sm text-gray-600">
+                    Add each course with its grade year, level and final letter grade. Use P for pass/fail courses.
+                  </p>
+                </div>
+                
+                {transcript.fields.map((course, index) => (
+                  <div key={course.id} className="p-4 border border-gray-200 rounded-md bg-gray-50">
+                    <div className="grid grid-cols-2 gap-4 md:grid-cols-5 items-start">
+                      <FormField
+                        control={form.control}
+                        name={`transcript.${index}.name`}
+                        render={({ field }) => (
+                          <FormItem className="col-span-2">
+                            <FormLabel>Course</FormLabel>
+                            <FormControl>
+                              <Input placeholder="AP Calculus BC" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`transcript.${index}.gradeYear`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Grade</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {gradeYearSchema.options.map((year) => (
+                                  <SelectItem key={year} value={year}>{year}th</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`transcript.${index}.level`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Level</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {courseLevelSchema.options.map((level) => (
+                                  <SelectItem key={level} value={level}>{COURSE_LEVEL_LABELS[level]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <div className="flex items-end gap-2">
+                        <FormField
+                          control={form.control}
+                          name={`transcript.${index}.grade`}
+                          render={({ field }) => (
+                            <FormItem className="flex-1">
+                              <FormLabel>Letter Grade</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {courseGradeSchema.options.map((grade) => (
+                                    <SelectItem key={grade} value={grade}>{grade}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <button 
+                          type="button"
+                          onClick={() => transcript.remove(index)}
+                          className="mb-2 text-gray-400 hover:text-red-500"
+                        >
+                          <X className="h-5 w-5" />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                <button 
+                  type="button"
+                  onClick={() => transcript.append({ ...EMPTY_COURSE, gradeYear: watchedTranscript?.[watchedTranscript.length - 1]?.gradeYear || "9" })}
+                  className="flex items-center text-sm font-medium text-primary hover:text-primary/80"
+                >
+                  <PlusCircle className="h-5 w-5 mr-1" />
+                  Add Course
+                </button>
+                {form.formState.errors.transcript?.message && (
+                  <p className="text-sm font-medium text-destructive">{form.formState.errors.transcript.message}</p>
                 )}
-              />
+                {/* The GPA field is hidden here, so a pass/fail-only transcript's missing GPA is reported on the courses */}
+                {form.formState.errors.gpa && !form.formState.errors.transcript?.message && (
+                  <p className="text-sm font-medium text-destructive">{NO_LETTER_GRADES_MESSAGE}</p>
+                )}
+                
+                {transcriptSummary && (
+                  <div className="grid grid-cols-2 gap-4 md:grid-cols-4 p-4 rounded-md bg-blue-50 border border-blue-100">
+                    <div>
+                      <p className="text-sm font-medium text-gray-500">Unweighted GPA</p>
+                      <p className="text-lg text-gray-900">{transcriptSummary.unweightedGpa?.toFixed(2) ?? "—"}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-gray-500">Weighted GPA</p>
+                      <p className="text-lg text-gray-900">{transcriptSummary.weightedGpa?.toFixed(2) ?? "—"}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-gray-500">AP/IB Courses</p>
+                      <p className="text-lg text-gray-900">{transcriptSummary.apCourses}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-gray-500">Course Rigor</p>
+                      <p className="text-lg text-gray-900">{COURSE_RIGOR_LABELS[transcriptSummary.courseRigor]}</p>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {!transcriptMode && (
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-800">GPA by Year or Semester (optional)</h3>
+                  <p className="text-sm text-gray-600">
+                    Admissions readers look at your trajectory, not just the overall number. Add your GPA for each year or
+                    semester on the same scale as above, and we'll point out upward trends and any dips worth explaining.
+                  </p>
+                </div>
+                
+                {termGpas.fields.map((term, index) => (
+                  <div key={term.id} className="p-4 border border-gray-200 rounded-md bg-gray-50">
+                    <div className="grid grid-cols-1 gap-4 md:grid-cols-3 items-start">
+                      <FormField
+                        control={form.control}
+                        name={`termGpas.${index}.gradeYear`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Grade</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {gradeYearSchema.options.map((year) => (
+                                  <SelectItem key={year} value={year}>{year}th</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`termGpas.${index}.term`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Term</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {gpaTermSchema.options.map((termOption) => (
+                                  <SelectItem key={termOption} value={termOption}>{GPA_TERM_LABELS[termOption]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <div className="flex items-end gap-2">
+                        <FormField
+                          control={form.control}
+                          name={`termGpas.${index}.gpa`}
+                          render={({ field }) => (
+                            <FormItem className="flex-1">
+                              <FormLabel>GPA</FormLabel>
+                              <FormControl>
+                                <Input placeholder={GPA_SCALE_HINTS[gpaScale].placeholder} {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <button 
+                          type="button"
+                          onClick={() => termGpas.remove(index)}
+                          className="mb-2 text-gray-400 hover:text-red-500"
+                        >
+                          <X className="h-5 w-5" />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                <button 
+                  type="button"
+                  onClick={() => termGpas.append({ gradeYear: "9", term: "year", gpa: "" })}
+                  className="flex items-center text-sm font-medium text-primary hover:text-primary/80"
+                >
+                  <PlusCircle className="h-5 w-5 mr-1" />
+                  Add Term GPA
+                </button>
+              </div>
+            )}
+
+            <div className="space-y-6">
+              <div>
+                <h3 className="text-lg font-medium text-gray-800">Test Sittings (optional)</h3>
+                <p className="text-sm text-gray-600">
+                  Took a test more than once? Add each sitting with its section scores. We'll compute your superscore
+                  for colleges that accept one and compare the SAT and ACT using the official concordance.
+                </p>
+              </div>
+              
+              <div>
+                <h4 className="font-medium text-gray-700 mb-3">SAT Sittings</h4>
+                {satSittings.fields.map((sitting, index) => (
+                  <div key={sitting.id} className="mb-3 p-4 border border-gray-200 rounded-md bg-gray-50">
+                    <div className="grid grid-cols-1 gap-4 md:grid-cols-4 items-start">
+                      <FormField
+                        control={form.control}
+                        name={`satSittings.${index}.date`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Test Date</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Mar 2024" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`satSittings.${index}.readingWriting`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Reading & Writing</FormLabel>
+                            <FormControl>
+                              <Input placeholder="700" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`satSittings.${index}.math`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Math</FormLabel>
+                            <FormControl>
+                              <Input placeholder="740" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <div className="flex items-end justify-between h-full">
+                        <div>
+                          <p className="text-sm font-medium text-gray-500">Total</p>
+                          <p className="text-lg text-gray-900">{satTotal(index)}</p>
+                        </div>
+                        <button 
+                          type="button"
+                          onClick={() => satSittings.remove(index)}
+                          className="text-gray-400 hover:text-red-500"
+                        >
+                          <X className="h-5 w-5" />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                <button 
+                  type="button"
+                  onClick={() => satSittings.append({ date: "", readingWriting: "", math: "" })}
+                  className="flex items-center text-sm font-medium text-primary hover:text-primary/80"
+                >
+                  <PlusCircle className="h-5 w-5 mr-1" />
+                  Add SAT Sitting
+                </button>
+              </div>
+              
+              <div>
+                <h4 className="font-medium text-gray-700 mb-3">ACT Sittings</h4>
+                {actSittings.fields.map((sitting, index) => (
+                  <div key={sitting.id} className="mb-3 p-4 border border-gray-200 rounded-md bg-gray-50">
+                    <div className="grid grid-cols-2 gap-4 md:grid-cols-6 items-start">
+                      <FormField
+                        control={form.control}
+                        name={`actSittings.${index}.date`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Test Date</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Apr 2024" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      {(["english", "math", "reading", "science"] as const).map((section) => (
+                        <FormField
+                          key={section}
+                          control={form.control}
+                          name={`actSittings.${index}.${section}`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="capitalize">{section}</FormLabel>
+                              <FormControl>
+                                <Input placeholder="32" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                      <div className="flex items-end justify-between h-full">
+                        <div>
+                          <p className="text-sm font-medium text-gray-500">Composite</p>
+                          <p className="text-lg text-gray-900">{actComposite(index)}</p>
+                        </div>
+                        <button 
+                          type="button"
+                          onClick={() => actSittings.remove(index)}
+                          className="text-gray-400 hover:text-red-500"
+                        >
+                          <X className="h-5 w-5" />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                <button 
+                  type="button"
+                  onClick={() => actSittings.append({ date: "", english: "", math: "", reading: "", science: "" })}
+                  className="flex items-center text-sm font-medium text-primary hover:text-primary/80"
+                >
+                  <PlusCircle className="h-5 w-5 mr-1" />
+                  Add ACT Sitting
+                </button>
+              </div>
             </div>
 
+            <SchoolContextSection formData={formData} setFormData={setFormData} />
+
             <div className="mt-8 flex justify-end">
               <Button type="submit">
                 Continue
@@ -0,0 +1,130 @@
+import { Dispatch, SetStateAction } from "react";
+import { ShieldCheck } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { type AdmissionData, type ApplicantContext } from "@shared/schema";
+
+interface ApplicantContextSectionProps {
+  formData: AdmissionData;
+  setFormData: Dispatch<SetStateAction<AdmissionData>>;
+}
+
+const EMPTY_CONTEXT: ApplicantContext = {
+  consent: false,
+  firstGeneration: false,
+  pellEligible: false,
+  underrepresentedMinority: false,
+  legacyColleges: [],
+  recruitedAthleteColleges: [],
+  facultyChildColleges: [],
+};
+
+type ContextFlag = "firstGeneration" | "pellEligible" | "underrepresentedMinority";
+type CollegeHook = "legacyColleges" | "recruitedAthleteColleges" | "facultyChildColleges";
+
+const CONTEXT_FLAGS: { key: ContextFlag, label: string }[] = [
+  { key: "firstGeneration", label: "I would be the first in my family to earn a four-year degree" },
+  { key: "pellEligible", label: "My family's income makes me eligible for a Pell Grant" },
+  { key: "underrepresentedMinority", label: "I identify as a member of an underrepresented minority group" },
+];
+
+const COLLEGE_HOOKS: { key: CollegeHook, label: string }[] = [
+  { key: "legacyColleges", label: "Legacy" },
+  { key: "recruitedAthleteColleges", label: "Recruited athlete" },
+  { key: "facultyChildColleges", label: "Parent works there" },
+];
+
+export function ApplicantContextSection({ formData, setFormData }: ApplicantContextSectionProps) {
+  const context = formData.context || EMPTY_CONTEXT;
+  const colleges = formData.colleges.filter((college) => college.name.trim() !== "");
+
+  const updateContext = (changes: Partial<ApplicantContext>) => {
+    setFormData((prev) => ({
+      ...prev,
+      context: { ...(prev.context || EMPTY_CONTEXT), ...changes },
+    }));
+  };
+
+  // Withdrawing consent clears everything that was shared
+  const handleConsentChange = (consent: boolean) => {
+    updateContext(consent ? { consent } : EMPTY_CONTEXT);
+  };
+
+  const toggleCollegeHook = (hook: CollegeHook, collegeKey: string, checked: boolean) => {
+    const current = context[hook];
+    updateContext({
+      [hook]: checked ? [...current, collegeKey] : current.filter((key) => key !== collegeKey),
+    });
+  };
+
+  return (
+    <div className="mb-6 rounded-lg border border-gray-200 p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <ShieldCheck className="h-5 w-5 text-primary" />
+        <h3 className="text-lg font-medium text-gray-800">Additional Context (optional)</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Some colleges give weight to family connections, athletic recruitment or your family's background.
+        Sharing this is entirely optional. It is only used for this analysis and is never included in the
+        anonymized data we keep.
+      </p>
+
+      <div className="flex items-start space-x-3">
+        <Checkbox
+          id="context-consent"
+          checked={context.consent}
+          onCheckedChange={(checked) => handleConsentChange(checked === true)}
+        />
+        <label htmlFor="context-consent" className="text-sm font-medium text-gray-700 cursor-pointer">
+          I agree to share this context for my analysis
+        </label>
+      </div>
+
+      {context.consent && (
+        <div className="mt-4 space-y-4">
+          <div className="space-y-2">
+            {CONTEXT_FLAGS.map((flag) => (
+              <div key={flag.key} className="flex items-start space-x-3">
+                <Checkbox
+                  id={`context-${flag.key}`}
+                  checked={context[flag.key]}
+                  onCheckedChange={(checked) => updateContext({ [flag.key]: checked === true })}
+                />
+                <label htmlFor={`context-${flag.key}`} className="text-sm text-gray-700 cursor-pointer">
+                  {flag.label}
+                </label>
+              </div>
+            ))}
+          </div>
+
+          {colleges.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Connections to the colleges on your list</h4>
+              <div className="space-y-2">
+                {colleges.map((college) => {
+                  const collegeKey = college.id || college.name;
+                  return (
+                    <div key={collegeKey} className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                      <span className="text-sm text-gray-800 w-full sm:w-56 truncate">{college.name}</span>
+                      {COLLEGE_HOOKS.map((hook) => (
+                        <div key={hook.key} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`context-${hook.key}-${collegeKey}`}
+                            checked={context[hook.key].includes(collegeKey)}
+                            onCheckedChange={(checked) => toggleCollegeHook(hook.key, collegeKey, checked === true)}
+                          />
+                          <label htmlFor={`context-${hook.key}-${collegeKey}`} className="text-xs text-gray-600 cursor-pointer">
+                            {hook.label}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,19 @@
-import { Dispatch, SetStateAction } from "react";
+import { Dispatch, SetStateAction, useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { PlusCircle, X } from "lucide-react";
-import { type AdmissionData } from "@shared/schema";
+import { 
+  APPLICATION_ROUND_LABELS, US_STATES, type AdmissionData, type ApplicationRound, type CollegeSelection 
+} from "@shared/schema";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CollegeCombobox } from "@/components/ui/collegeCombobox";
+import { ApplicantContextSection } from "./applicantContext";
 
 interface CollegesMajorProps {
   formData: AdmissionData;
@@ -18,9 +22,30 @@ interface CollegesMajorProps {
   onPrev: () => void;
 }
 
+// Same rules the server enforces: ED is binding, and restrictive early action excludes other early plans
+function getApplicationPlanError(colleges: CollegeSelection[]): string | null {
+  const count = (round: ApplicationRound) => colleges.filter((college) => college.round === round).length;
+  if (count("ED") > 1) return "You can only apply Early Decision to one college because ED is binding.";
+  if (count("REA") > 1) return "You can only apply Restrictive Early Action to one college.";
+  if (count("REA") > 0 && count("ED") > 0) return "Restrictive Early Action doesn't allow an Early Decision application elsewhere.";
+  return null;
+}
+
+const OUTSIDE_US = "outside-us";
+
 const collegesMajorSchema = z.object({
   major: z.string().min(1, "Major is required"),
-  residency: z.enum(["in-state", "out-of-state", "international"]).default("out-of-state"),
+  alternateMajor: z.string().default(""),
+  // A state code, or OUTSIDE_US with the country named separately
+  homeState: z.string().min(1, "Select your home state"),
+  homeCountry: z.string().default(""),
+  preferredControl: z.enum(["any", "public", "private"]).default("any"),
+  preferredFocus: z.enum(["any", "stem", "liberal-arts", "comprehensive"]).default("any"),
+  // Comma-separated two-letter state codes, e.g. "CA, NY"
+  preferredStates: z.string().regex(/^\s*([A-Za-z]{2}\s*(,\s*[A-Za-z]{2}\s*)*)?$/, "Use two-letter state codes separated by commas").default(""),
+}).refine((values) => values.homeState !== OUTSIDE_US || values.homeCountry.trim() !== "", {
+  message: "Enter your country",
+  path: ["homeCountry"],
 });
 
 export function CollegesMajor({ formData, setFormData, onNext, onPrev }: CollegesMajorProps) {
@@ -28,35 +53,58 @@ export function CollegesMajor({ formData, setFormData, onNext, onPrev }: College
     resolver: zodResolver(collegesMajorSchema),
     defaultValues: {
       major: formData.major,
-      residency: formData.residency || "out-of-state",
+      alternateMajor: formData.alternateMajor || "",
+      homeState: formData.home ? (formData.home.country === "US" ? formData.home.state || "" : OUTSIDE_US) : "",
+      homeCountry: formData.home && formData.home.country !== "US" ? formData.home.country : "",
+      preferredControl: formData.preferences?.control || "any",
+      preferredFocus: formData.preferences?.focus || "any",
+      preferredStates: (formData.preferences?.states || []).join(", "),
     },
   });
 
+  const [planError, setPlanError] = useState<string | null>(null);
+
   function onSubmit(values: z.infer<typeof collegesMajorSchema>) {
     // Filter out empty colleges
     const filteredColleges = formData.colleges.filter(
-      (college) => college.trim() !== ""
+      (college) => college.name.trim() !== ""
     );
     
+    const error = getApplicationPlanError(filteredColleges);
+    setPlanError(error);
+    if (error) return;
+    
     // If all are empty, keep at least one empty record
     const updatedColleges = 
       filteredColleges.length > 0 
         ? filteredColleges 
-        : [""];
+        : [{ name: "" }];
     
     setFormData((prev) => ({
       ...prev,
       colleges: updatedColleges,
       major: values.major,
-      residency: values.residency,
+      alternateMajor: values.alternateMajor.trim() || undefined,
+      home: values.homeState === OUTSIDE_US
+        ? { country: values.homeCountry.trim() }
+        : { country: "US", state: values.homeState },
+      preferences: {
+        control: values.preferredControl,
+        focus: values.preferredFocus,
+        states: values.preferredStates
+          .split(",")
+          .map((state) => state.trim().toUpperCase())
+          .filter((state) => state !== ""),
+      },
     }));
     
     onNext();
   }
   
-  const handleCollegeChange = (index: number, value: string) => {
+  const handleCollegeChange = (index: number, value: CollegeSelection) => {
     const updatedColleges = [...formData.colleges];
-    updatedColleges[index] = value;
+    // Keep the chosen round when the college itself changes
+    updatedColleges[index] = { ...value, round: formData.colleges[index]?.round };
     
     setFormData((prev) => ({
       ...prev,
@@ -64,10 +112,21 @@ export function CollegesMajor({ formData, setFormData, onNext, onPrev }: College
     }));
   };
   
+  const handleRoundChange = (index: number, round: ApplicationRound) => {
+    const updatedColleges = [...formData.colleges];
+    updatedColleges[index] = { ...updatedColleges[index], round };
+    
+    setFormData((prev) => ({
+      ...prev,
+      colleges: updatedColleges,
+    }));
+    setPlanError(null);
+  };
+  
   const addCollege = () => {
     setFormData((prev) => ({
       ...prev,
-      colleges: [...prev.colleges, ""],
+      colleges: [...prev.colleges, { name: "" }],
     }));
   };
   
@@ -95,12 +154,24 @@ export function CollegesMajor({ formData, setFormData, onNext, onPrev }: College
           
           {formData.colleges.map((college, index) => (
             <div key={index} className="mb-3 flex items-center">
-              <Input 
+              <CollegeCombobox 
                 value={college}
-                onChange={(e) => handleCollegeChange(index, e.target.value)}
-                placeholder="University Name"
-                className="flex-1"
+                onChange={(value) => handleCollegeChange(index, value)}
+                placeholder="Search for a university"
               />
+              <Select 
+                value={college.round || "RD"} 
+                onValueChange={(value) => handleRoundChange(index, value as ApplicationRound)}
+              >
+                <SelectTrigger className="ml-2 w-56" aria-label="Application round">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(APPLICATION_ROUND_LABELS) as ApplicationRound[]).map((round) => (
+                    <SelectItem key={round} value={round}>{APPLICATION_ROUND_LABELS[round]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <button 
                 type="button"
                 onClick={() => removeCollege(index)}
@@ -119,6 +190,10 @@ export function CollegesMajor({ formData, setFormData, onNext, onPrev }: College
             <PlusCircle className="h-5 w-5 mr-1" />
             Add Another College
           </button>
+          
+          {planError && (
+            <p className="mt-3 text-sm font-medium text-destructive">{planError}</p>
+          )}
         </div>
         
         <Form {...form}>
@@ -145,48 +220,142 @@ export function CollegesMajor({ formData, setFormData, onNext, onPrev }: College
             <div className="mb-6">
               <FormField
                 control={form.control}
-                name="residency"
+                name="alternateMajor"
                 render={({ field }) => (
-                  <FormItem className="space-y-3">
-                    <FormLabel>Residency Status</FormLabel>
+                  <FormItem>
+                    <FormLabel>Alternate Major (optional)</FormLabel>
                     <FormControl>
-                      <RadioGroup
-                        onValueChange={field.onChange}
-                        defaultValue={field.value}
-                        className="flex flex-col space-y-1"
-                      >
-                        <FormItem className="flex items-center space-x-3 space-y-0">
-                          <FormControl>
-                            <RadioGroupItem value="in-state" />
-                          </FormControl>
-                          <FormLabel className="font-normal">
-                            In-State Student
-                          </FormLabel>
-                        </FormItem>
-                        <FormItem className="flex items-center space-x-3 space-y-0">
-                          <FormControl>
-                            <RadioGroupItem value="out-of-state" />
-                          </FormControl>
-                          <FormLabel className="font-normal">
-                            Out-of-State Student
-                          </FormLabel>
-                        </FormItem>
-                        <FormItem className="flex items-center space-x-3 space-y-0">
-                          <FormControl>
-                            <RadioGroupItem value="international" />
-                          </FormControl>
-                          <FormLabel className="font-normal">
-                            International Student
-                          </FormLabel>
-                        </FormItem>
-                      </RadioGroup>
+                      <Input 
+                        placeholder="e.g., Mathematics" 
+                        {...field} 
+                      />
                     </FormControl>
+                    <FormDescription>
+                      Some colleges admit students to specific programs. We'll compare your chances with your second choice.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            
+            <div className="mb-6 grid grid-cols-1 gap-6 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="homeState"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Home State</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select your state" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(US_STATES).map(([code, name]) => (
+                          <SelectItem key={code} value={code}>{name}</SelectItem>
+                        ))}
+                        <SelectItem value={OUTSIDE_US}>I live outside the United States</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Public universities give in-state applicants priority.
+                    </FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
               />
+              
+              {form.watch("homeState") === OUTSIDE_US && (
+                <FormField
+                  control={form.control}
+                  name="homeCountry"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Country</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Canada" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
             </div>
             
+            <div className="mb-6">
+              <h3 className="text-lg font-medium text-gray-800 mb-1">College Preferences (optional)</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                We use these to suggest colleges you might not have considered.
+              </p>
+              <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+                <FormField
+                  control={form.control}
+                  name="preferredControl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Public or Private</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="No preference" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="any">No preference</SelectItem>
+                          <SelectItem value="public">Public</SelectItem>
+                          <SelectItem value="private">Private</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="preferredFocus"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type of College</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="No preference" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="any">No preference</SelectItem>
+                          <SelectItem value="comprehensive">Research university</SelectItem>
+                          <SelectItem value="liberal-arts">Liberal arts college</SelectItem>
+                          <SelectItem value="stem">STEM-focused institute</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="preferredStates"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Preferred States</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., CA, NY, MA" {...field} />
+                      </FormControl>
+                      <FormDescription>Two-letter codes, separated by commas</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+            
+            <ApplicantContextSection formData={formData} setFormData={setFormData} />
+            
             <div className="mt-8 flex justify-between">
               <Button type="button" variant="outline" onClick={onPrev}>
                 Back
@@ -39,6 +39,7 @@ export function Extracurriculars({ formData, setFormData, onNext, onPrev }: Extr
           role: "",
           yearsInvolved: "",
           hoursPerWeek: "",
+          weeksPerYear: "",
           description: "",
         },
       ],
@@ -66,7 +67,7 @@ export function Extracurriculars({ formData, setFormData, onNext, onPrev }: Extr
     const updatedExtracurriculars = 
       filteredExtracurriculars.length > 0 
         ? filteredExtracurriculars 
-        : [{ activity: "", role: "", yearsInvolved: "", hoursPerWeek: "", description: "" }];
+        : [{ activity: "", role: "", yearsInvolved: "", hoursPerWeek: "", weeksPerYear: "", description: "" }];
     
     setFormData((prev) => ({
       ...prev,
@@ -120,33 +121,45 @@ export function Extracurriculars({ formData, setFormData, onNext, onPrev }: Extr
                 />
               </div>
               
-              <div>
-                <Label htmlFor={`activity-years-${index}`}>Years Involved</Label>
-                <Select 
-                  value={activity.yearsInvolved}
-                  onValueChange={(value) => handleInputChange(index, "yearsInvolved", value)}
-                >
-                  <SelectTrigger id={`activity-years-${index}`}>
-                    <SelectValue placeholder="Select years" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="1">1 year</SelectItem>
-                    <SelectItem value="2">2 years</SelectItem>
-                    <SelectItem value="3">3 years</SelectItem>
-                    <SelectItem value="4">4 years</SelectItem>
-                    <SelectItem value="5+">5+ years</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+              <div className="md:col-span-2 grid grid-cols-1 gap-4 md:grid-cols-3">
+                <div>
+                  <Label htmlFor={`activity-years-${index}`}>Years Involved</Label>
+                  <Select 
+                    value={activity.yearsInvolved}
+                    onValueChange={(value) => handleInputChange(index, "yearsInvolved", value)}
+                  >
+                    <SelectTrigger id={`activity-years-${index}`}>
+                      <SelectValue placeholder="Select years" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">1 year</SelectItem>
+                      <SelectItem value="2">2 years</SelectItem>
+                      <SelectItem value="3">3 years</SelectItem>
+                      <SelectItem value="4">4 years</SelectItem>
+                      <SelectItem value="5+">5+ years</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               
-              <div>
-                <Label htmlFor={`activity-hours-${index}`}>Hours per Week</Label>
-                <Input 
-                  id={`activity-hours-${index}`}
-                  value={activity.hoursPerWeek}
-                  onChange={(e) => handleInputChange(index, "hoursPerWeek", e.target.value)}
-                  placeholder="5"
-                />
+                <div>
+                  <Label htmlFor={`activity-hours-${index}`}>Hours per Week</Label>
+                  <Input 
+                    id={`activity-hours-${index}`}
+                    value={activity.hoursPerWeek}
+                    onChange={(e) => handleInputChange(index, "hoursPerWeek", e.target.value)}
+                    placeholder="5 or 5-10"
+                  />
+                </div>
+              
+                <div>
+                  <Label htmlFor={`activity-weeks-${index}`}>Weeks per Year</Label>
+                  <Input 
+                    id={`activity-weeks-${index}`}
+                    value={activity.weeksPerYear}
+                    onChange={(e) => handleInputChange(index, "weeksPerYear", e.target.value)}
+                    placeholder="36, or summers only"
+                  />
+                </div>
               </div>
               
               <div className="md:col-span-2">
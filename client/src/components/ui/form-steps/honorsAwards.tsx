@@ -1,11 +1,16 @@
-import { Dispatch, SetStateAction } from "react";
+import { Dispatch, SetStateAction, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
-import { PlusCircle, X } from "lucide-react";
-import { type AdmissionData, type HonorAward } from "@shared/schema";
+import { BadgeCheck, Lightbulb, PlusCircle, X } from "lucide-react";
+import { AWARD_LEVEL_LABELS, awardLevelSchema, type AdmissionData, type AwardRecognition, type HonorAward } from "@shared/schema";
+
+// Wait for typing to pause before checking titles against the award knowledge base
+const CHECK_DELAY_MS = 500;
 
 interface HonorsAwardsProps {
   formData: AdmissionData;
@@ -15,6 +20,25 @@ interface HonorsAwardsProps {
 }
 
 export function HonorsAwards({ formData, setFormData, onNext, onPrev }: HonorsAwardsProps) {
+  const [checkedAwards, setCheckedAwards] = useState(formData.honorsAwards);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setCheckedAwards(formData.honorsAwards), CHECK_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [formData.honorsAwards]);
+
+  const titledAwards = checkedAwards.filter((honor) => honor.title.trim() !== "");
+  const { data: recognitionData } = useQuery<{ success: boolean; awards: AwardRecognition[] }>({
+    queryKey: ["/api/award-recognition", titledAwards],
+    queryFn: () => apiRequest({ url: "/api/award-recognition", method: "POST", body: { honorsAwards: titledAwards } }),
+    enabled: titledAwards.length > 0,
+  });
+
+  // Recognitions come back for the titled awards only; match them up by title, which also skips
+  // results for a title that has since been edited
+  const findRecognition = (honor: HonorAward) =>
+    recognitionData?.awards.find((recognition) => recognition.title === honor.title);
+
   const handleInputChange = (index: number, field: keyof HonorAward, value: string) => {
     const updatedHonorsAwards = [...formData.honorsAwards];
     updatedHonorsAwards[index] = {
@@ -73,6 +97,32 @@ export function HonorsAwards({ formData, setFormData, onNext, onPrev }: HonorsAw
     onNext();
   };
 
+  // A recognized award shows its known name; a level that doesn't match what we know comes with a fix
+  const renderRecognition = (index: number, honor: HonorAward) => {
+    const recognition = findRecognition(honor);
+    if (!recognition) return null;
+
+    const level = recognition.knownAs ? recognition.level : recognition.suggestedLevel;
+    const mismatch = level !== undefined && level !== honor.level;
+    if (!recognition.knownAs && !mismatch) return null;
+
+    return (
+      <div className={`mt-3 flex flex-wrap items-center gap-2 text-sm ${mismatch ? "text-amber-700" : "text-green-700"}`}>
+        {recognition.knownAs ? <BadgeCheck className="h-4 w-4" /> : <Lightbulb className="h-4 w-4" />}
+        <span>
+          {recognition.knownAs
+            ? `Recognized as ${recognition.knownAs}${mismatch ? `, a ${AWARD_LEVEL_LABELS[recognition.level].toLowerCase()}-level award` : ""}`
+            : "This looks like a school award"}
+        </span>
+        {mismatch && level && (
+          <Button type="button" variant="outline" size="sm" className="h-7" onClick={() => handleInputChange(index, "level", level)}>
+            Use {AWARD_LEVEL_LABELS[level]}
+          </Button>
+        )}
+      </div>
+    );
+  };
+
   return (
     <Card className="bg-white shadow-sm rounded-lg p-6 mb-8">
       <CardContent className="p-0 pt-6">
@@ -117,11 +167,9 @@ export function HonorsAwards({ formData, setFormData, onNext, onPrev }: HonorsAw
                     <SelectValue placeholder="Select level" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="school">School</SelectItem>
-                    <SelectItem value="district">District/Regional</SelectItem>
-                    <SelectItem value="state">State</SelectItem>
-                    <SelectItem value="national">National</SelectItem>
-                    <SelectItem value="international">International</SelectItem>
+                    {awardLevelSchema.options.map((level) => (
+                      <SelectItem key={level} value={level}>{AWARD_LEVEL_LABELS[level]}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -144,6 +192,8 @@ export function HonorsAwards({ formData, setFormData, onNext, onPrev }: HonorsAw
                 </Select>
               </div>
             </div>
+            
+            {renderRecognition(index, honor)}
           </div>
         ))}
         
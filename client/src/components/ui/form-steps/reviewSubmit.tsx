@@ -3,7 +3,12 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Loader2 } from "lucide-react";
 import { useState } from "react";
-import { type AdmissionData } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { ActivityTierBadge } from "@/components/ui/results/activityTierBadge";
+import {
+  APPLICATION_ROUND_LABELS, COURSE_LEVEL_LABELS, GPA_SCALE_LABELS, GPA_TERM_LABELS, SCHOOL_TYPE_LABELS, US_STATES, gradeYearSchema, type ActivityTier, type AdmissionData
+} from "@shared/schema";
 
 interface ReviewSubmitProps {
   formData: AdmissionData;
@@ -15,12 +20,22 @@ interface ReviewSubmitProps {
 export function ReviewSubmit({ formData, onPrev, onSubmit, isSubmitting }: ReviewSubmitProps) {
   const [privacyChecked, setPrivacyChecked] = useState(false);
   
+  // Tiers come back in the order of the activities sent, so blank rows are left out of both
+  const activities = formData.extracurriculars.filter(ec => ec.activity);
+  const { data: tierData } = useQuery<{ success: boolean; tiers: ActivityTier[] }>({
+    queryKey: ["/api/activity-tiers", activities],
+    queryFn: () => apiRequest({ url: "/api/activity-tiers", method: "POST", body: { extracurriculars: activities } }),
+    enabled: activities.length > 0,
+  });
+  
   const handleSubmit = () => {
     if (privacyChecked) {
       onSubmit();
     }
   };
   
+  const formatHours = (hours: number) => hours.toLocaleString("en-US");
+  
   // Format course rigor for display
   const formatCourseRigor = (rigor: string) => {
     switch (rigor) {
@@ -74,8 +89,12 @@ export function ReviewSubmit({ formData, onPrev, onSubmit, isSubmitting }: Revie
             <div className="bg-gray-50 p-4 rounded-md">
               <dl className="grid grid-cols-1 gap-x-4 gap-y-3 sm:grid-cols-2">
                 <div>
-                  <dt className="text-sm font-medium text-gray-500">Unweighted GPA</dt>
-                  <dd className="text-sm text-gray-900">{formData.academics.gpa || "Not provided"}</dd>
+                  <dt className="text-sm font-medium text-gray-500">GPA</dt>
+                  <dd className="text-sm text-gray-900">
+                    {formData.academics.gpa
+                      ? `${formData.academics.gpa} (${GPA_SCALE_LABELS[formData.academics.gpaScale || "4.0"]})`
+                      : "Not provided"}
+                  </dd>
                 </div>
                 <div>
                   <dt className="text-sm font-medium text-gray-500">Weighted GPA</dt>
@@ -89,6 +108,26 @@ export function ReviewSubmit({ formData, onPrev, onSubmit, isSubmitting }: Revie
                   <dt className="text-sm font-medium text-gray-500">ACT Score</dt>
                   <dd className="text-sm text-gray-900">{formData.academics.act || "Not provided"}</dd>
                 </div>
+                {(formData.academics.satSittings?.length || 0) > 0 && (
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500">SAT Sittings</dt>
+                    <dd className="text-sm text-gray-900">
+                      {formData.academics.satSittings!.map((sitting) => 
+                        `${sitting.date || "Undated"}: ${sitting.readingWriting} R&W / ${sitting.math} Math`
+                      ).join("; ")}
+                    </dd>
+                  </div>
+                )}
+                {(formData.academics.actSittings?.length || 0) > 0 && (
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500">ACT Sittings</dt>
+                    <dd className="text-sm text-gray-900">
+                      {formData.academics.actSittings!.map((sitting) => 
+                        `${sitting.date || "Undated"}: ${sitting.english}/${sitting.math}/${sitting.reading}/${sitting.science}`
+                      ).join("; ")}
+                    </dd>
+                  </div>
+                )}
                 <div>
                   <dt className="text-sm font-medium text-gray-500">AP/IB Courses</dt>
                   <dd className="text-sm text-gray-900">{formData.academics.apCourses || "Not provided"}</dd>
@@ -97,6 +136,47 @@ export function ReviewSubmit({ formData, onPrev, onSubmit, isSubmitting }: Revie
                   <dt className="text-sm font-medium text-gray-500">Course Rigor</dt>
                   <dd className="text-sm text-gray-900">{formatCourseRigor(formData.academics.courseRigor)}</dd>
                 </div>
+                {formData.school && (
+                  <div className="sm:col-span-2">
+                    <dt className="text-sm font-medium text-gray-500">School</dt>
+                    <dd className="text-sm text-gray-900">
+                      {[
+                        formData.school.type ? SCHOOL_TYPE_LABELS[formData.school.type] : null,
+                        formData.school.advancedCoursesOffered ? `${formData.school.advancedCoursesOffered} AP/IB courses offered` : null,
+                        formData.school.ranks === false ? "Doesn't rank" :
+                          formData.school.classRank && formData.school.classSize ? `Rank ${formData.school.classRank} of ${formData.school.classSize}` :
+                          formData.school.rankDecile ? `Top ${Number(formData.school.rankDecile) * 10}%` : null,
+                      ].filter(Boolean).join(" • ") || "Not provided"}
+                    </dd>
+                  </div>
+                )}
+                {(formData.academics.termGpas?.length || 0) > 0 && (
+                  <div className="sm:col-span-2">
+                    <dt className="text-sm font-medium text-gray-500">GPA by Term</dt>
+                    <dd className="text-sm text-gray-900">
+                      {formData.academics.termGpas!.map((term) =>
+                        `${term.gradeYear}th${term.term === "year" ? "" : ` (${GPA_TERM_LABELS[term.term].toLowerCase()})`}: ${term.gpa}`
+                      ).join("; ")}
+                    </dd>
+                  </div>
+                )}
+                {(formData.academics.transcript?.length || 0) > 0 && (
+                  <div className="sm:col-span-2">
+                    <dt className="text-sm font-medium text-gray-500">
+                      Transcript ({formData.academics.transcript!.length} courses; GPA, AP/IB count and rigor computed from it)
+                    </dt>
+                    <dd className="text-sm text-gray-900">
+                      {gradeYearSchema.options.map((year) => {
+                        const courses = formData.academics.transcript!.filter((course) => course.gradeYear === year);
+                        return courses.length > 0 && (
+                          <p key={year}>
+                            {year}th: {courses.map((course) => `${course.name} (${COURSE_LEVEL_LABELS[course.level]}) ${course.grade}`).join("; ")}
+                          </p>
+                        );
+                      })}
+                    </dd>
+                  </div>
+                )}
               </dl>
             </div>
           </div>
@@ -105,20 +185,28 @@ export function ReviewSubmit({ formData, onPrev, onSubmit, isSubmitting }: Revie
           <div>
             <h3 className="text-lg font-medium text-gray-800 mb-3">Extracurricular Activities</h3>
             <div className="bg-gray-50 p-4 rounded-md">
-              {formData.extracurriculars.filter(ec => ec.activity).length === 0 ? (
+              {activities.length === 0 ? (
                 <p className="text-sm text-gray-500">No extracurricular activities provided.</p>
               ) : (
                 <ul className="space-y-3">
-                  {formData.extracurriculars.map((activity, index) => (
-                    activity.activity && (
+                  {activities.map((activity, index) => {
+                    const tier = tierData?.tiers[index];
+                    return (
                       <li key={index}>
                         <p className="text-sm font-medium text-gray-900">{activity.activity}</p>
                         <p className="text-sm text-gray-500">
                           {activity.role || "No role"} • {activity.yearsInvolved || "0"} years • {activity.hoursPerWeek || "0"} hrs/week
+                          {" "}• {tier ? tier.commitment.weeksPerYear : activity.weeksPerYear || "?"} weeks/year
+                          {tier && <> • <span className="font-medium text-gray-700">≈{formatHours(tier.commitment.totalHours)} hours total</span></>}
                         </p>
+                        {tier && (
+                          <div className="mt-1">
+                            <ActivityTierBadge tier={tier} />
+                          </div>
+                        )}
                       </li>
-                    )
-                  ))}
+                    );
+                  })}
                 </ul>
               )}
             </div>
@@ -155,13 +243,17 @@ export function ReviewSubmit({ formData, onPrev, onSubmit, isSubmitting }: Revie
             <div className="bg-gray-50 p-4 rounded-md">
               <div className="mb-3">
                 <h4 className="text-sm font-medium text-gray-500">Colleges of Interest</h4>
-                {formData.colleges.filter(c => c).length === 0 ? (
+                {formData.colleges.filter(c => c.name).length === 0 ? (
                   <p className="text-sm text-gray-900">No colleges provided.</p>
                 ) : (
                   <ul className="mt-1 space-y-1">
                     {formData.colleges.map((college, index) => (
-                      college && (
-                        <li key={index} className="text-sm text-gray-900">{college}</li>
+                      college.name && (
+                        <li key={index} className="text-sm text-gray-900">
+                          {college.name}
+                          {!college.id && <span className="text-gray-500"> (not in catalog)</span>}
+                          <span className="text-gray-500"> • {APPLICATION_ROUND_LABELS[college.round || "RD"]}</span>
+                        </li>
                       )
                     ))}
                   </ul>
@@ -169,16 +261,48 @@ export function ReviewSubmit({ formData, onPrev, onSubmit, isSubmitting }: Revie
               </div>
               <div className="mb-3">
                 <h4 className="text-sm font-medium text-gray-500">Intended Major</h4>
-                <p className="text-sm text-gray-900">{formData.major || "Not provided"}</p>
+                <p className="text-sm text-gray-900">
+                  {formData.major || "Not provided"}
+                  {formData.alternateMajor && <span className="text-gray-500"> (alternate: {formData.alternateMajor})</span>}
+                </p>
               </div>
               <div>
-                <h4 className="text-sm font-medium text-gray-500">Residency Status</h4>
+                <h4 className="text-sm font-medium text-gray-500">Home</h4>
+                <p className="text-sm text-gray-900">
+                  {!formData.home ? "Not provided" :
+                   formData.home.country === "US" ? `${US_STATES[formData.home.state || ""] || formData.home.state}, United States` :
+                   formData.home.country}
+                </p>
+              </div>
+              <div className="mt-3">
+                <h4 className="text-sm font-medium text-gray-500">Additional Context</h4>
                 <p className="text-sm text-gray-900">
-                  {formData.residency === "in-state" ? "In-State Student" : 
-                   formData.residency === "international" ? "International Student" :
-                   "Out-of-State Student"}
+                  {formData.context?.consent
+                    ? [
+                        formData.context.firstGeneration ? "First-generation" : null,
+                        formData.context.pellEligible ? "Pell eligible" : null,
+                        formData.context.underrepresentedMinority ? "Underrepresented minority" : null,
+                        formData.context.legacyColleges.length > 0 ? `Legacy (${formData.context.legacyColleges.length})` : null,
+                        formData.context.recruitedAthleteColleges.length > 0 ? `Recruited athlete (${formData.context.recruitedAthleteColleges.length})` : null,
+                        formData.context.facultyChildColleges.length > 0 ? `Faculty/staff child (${formData.context.facultyChildColleges.length})` : null,
+                      ].filter(Boolean).join(" • ") || "Shared, nothing selected"
+                    : "Not shared"}
                 </p>
               </div>
+              {formData.preferences && (
+                <div className="mt-3">
+                  <h4 className="text-sm font-medium text-gray-500">College Preferences</h4>
+                  <p className="text-sm text-gray-900">
+                    {[
+                      formData.preferences.control !== "any" ? (formData.preferences.control === "public" ? "Public" : "Private") : null,
+                      formData.preferences.focus === "stem" ? "STEM-focused" :
+                        formData.preferences.focus === "liberal-arts" ? "Liberal arts" :
+                        formData.preferences.focus === "comprehensive" ? "Research university" : null,
+                      formData.preferences.states.length > 0 ? `In ${formData.preferences.states.join(", ")}` : null,
+                    ].filter(Boolean).join(" • ") || "No preference"}
+                  </p>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,130 @@
+import { Dispatch, SetStateAction } from "react";
+import { School } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SCHOOL_TYPE_LABELS, schoolTypeSchema, type AdmissionData, type SchoolContext } from "@shared/schema";
+
+interface SchoolContextSectionProps {
+  formData: AdmissionData;
+  setFormData: Dispatch<SetStateAction<AdmissionData>>;
+}
+
+const RANKS_OPTIONS: { value: string, label: string, ranks: boolean | undefined }[] = [
+  { value: "yes", label: "Yes", ranks: true },
+  { value: "no", label: "No", ranks: false },
+  { value: "unknown", label: "Not sure", ranks: undefined },
+];
+
+const DECILES = Array.from({ length: 10 }, (_, index) => String(index + 1));
+
+export function SchoolContextSection({ formData, setFormData }: SchoolContextSectionProps) {
+  const school = formData.school || {};
+
+  const updateSchool = (changes: Partial<SchoolContext>) => {
+    setFormData((prev) => ({
+      ...prev,
+      school: { ...prev.school, ...changes },
+    }));
+  };
+
+  // A school that doesn't rank has no rank to report
+  const handleRanksChange = (value: string) => {
+    const ranks = RANKS_OPTIONS.find((option) => option.value === value)?.ranks;
+    updateSchool(ranks ? { ranks } : { ranks, classRank: "", classSize: "", rankDecile: "" });
+  };
+
+  const ranksValue = school.ranks === true ? "yes" : school.ranks === false ? "no" : "unknown";
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <School className="h-5 w-5 text-primary" />
+        <h3 className="text-lg font-medium text-gray-800">Your School (optional)</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Colleges judge your course rigor against what your school offers and read your rank against your class.
+        Your counselor's school profile lists these details if you're unsure.
+      </p>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="school-type">School Type</Label>
+          <Select
+            value={school.type || ""}
+            onValueChange={(value) => updateSchool({ type: value as SchoolContext["type"] })}
+          >
+            <SelectTrigger id="school-type">
+              <SelectValue placeholder="Select school type" />
+            </SelectTrigger>
+            <SelectContent>
+              {schoolTypeSchema.options.map((type) => (
+                <SelectItem key={type} value={type}>{SCHOOL_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="school-courses-offered">AP/IB Courses Offered</Label>
+          <Input
+            id="school-courses-offered"
+            placeholder="12"
+            value={school.advancedCoursesOffered || ""}
+            onChange={(e) => updateSchool({ advancedCoursesOffered: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="school-ranks">Does Your School Rank?</Label>
+          <Select value={ranksValue} onValueChange={handleRanksChange}>
+            <SelectTrigger id="school-ranks">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANKS_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {school.ranks && (
+        <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="school-class-rank">Class Rank</Label>
+            <Input
+              id="school-class-rank"
+              placeholder="12"
+              value={school.classRank || ""}
+              onChange={(e) => updateSchool({ classRank: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="school-class-size">Class Size</Label>
+            <Input
+              id="school-class-size"
+              placeholder="350"
+              value={school.classSize || ""}
+              onChange={(e) => updateSchool({ classSize: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="school-rank-decile">Or Decile</Label>
+            <Select value={school.rankDecile || ""} onValueChange={(value) => updateSchool({ rankDecile: value })}>
+              <SelectTrigger id="school-rank-decile">
+                <SelectValue placeholder="If only a decile is reported" />
+              </SelectTrigger>
+              <SelectContent>
+                {DECILES.map((decile) => (
+                  <SelectItem key={decile} value={decile}>Top {Number(decile) * 10}%</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { Badge } from "@/components/ui/badge";
+import { ACTIVITY_TIER_LABELS, type ActivityTier } from "@shared/schema";
+
+const TIER_COLORS: Record<ActivityTier["tier"], string> = {
+  1: "bg-purple-100 text-purple-800 border-purple-200",
+  2: "bg-blue-100 text-blue-800 border-blue-200",
+  3: "bg-teal-100 text-teal-800 border-teal-200",
+  4: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+interface ActivityTierBadgeProps {
+  tier: ActivityTier;
+}
+
+/**
+ * An activity's impact tier with the reason it was assigned
+ */
+export function ActivityTierBadge({ tier }: ActivityTierBadgeProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Badge variant="outline" className={TIER_COLORS[tier.tier]}>
+        Tier {tier.tier} · {ACTIVITY_TIER_LABELS[tier.tier]}
+      </Badge>
+      <span className="text-xs text-gray-500">{tier.reason}</span>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { Bar, BarChart, Cell, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { CHANCE_FACTOR_LABELS, type ChanceFactorContribution } from "@shared/schema";
+
+interface ChanceBreakdownProps {
+  factors: ChanceFactorContribution[];
+}
+
+const chartConfig = {
+  range: { label: "Chance" },
+  base: { label: "Starting point", color: "hsl(215 16% 57%)" },
+  positive: { label: "Helps", color: "hsl(142 71% 35%)" },
+  negative: { label: "Hurts", color: "hsl(0 72% 51%)" },
+  total: { label: "Your estimate", color: "hsl(221 83% 53%)" },
+} satisfies ChartConfig;
+
+type BarKind = "base" | "positive" | "negative" | "total";
+
+interface WaterfallStep {
+  label: string;
+  // Start and end of the bar, in percent
+  range: [number, number];
+  kind: BarKind;
+  detail: string;
+}
+
+// Smaller effects than this don't move the estimate visibly
+const MIN_LOG_ODDS = 0.01;
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+const formatPercent = (percent: number) => `${percent < 10 ? percent.toFixed(1) : Math.round(percent)}%`;
+
+/**
+ * Waterfall of how each factor moved the estimate, starting from the college's admit rate. The model adds
+ * factors in log-odds, so each step is shown as the change in probability after the factors above it.
+ */
+function buildSteps(factors: ChanceFactorContribution[]): WaterfallStep[] {
+  const steps: WaterfallStep[] = [];
+  let logOdds = 0;
+
+  factors.forEach((term, index) => {
+    if (index > 0 && Math.abs(term.logOdds) < MIN_LOG_ODDS) {
+      logOdds += term.logOdds;
+      return;
+    }
+    const start = index === 0 ? 0 : sigmoid(logOdds) * 100;
+    logOdds += term.logOdds;
+    const end = sigmoid(logOdds) * 100;
+
+    if (term.factor === "base") {
+      steps.push({
+        label: CHANCE_FACTOR_LABELS.base,
+        range: [0, end],
+        kind: "base",
+        detail: `Applicants overall were admitted at about ${formatPercent(end)}`,
+      });
+      return;
+    }
+
+    const change = end - start;
+    steps.push({
+      label: CHANCE_FACTOR_LABELS[term.factor],
+      range: [Math.min(start, end), Math.max(start, end)],
+      kind: term.logOdds > 0 ? "positive" : "negative",
+      detail: `${change >= 0 ? "+" : "−"}${Math.abs(change).toFixed(1)} pts (odds ×${Math.exp(term.logOdds).toFixed(2)})`,
+    });
+  });
+
+  const estimate = sigmoid(logOdds) * 100;
+  steps.push({ label: "Your estimate", range: [0, estimate], kind: "total", detail: formatPercent(estimate) });
+  return steps;
+}
+
+export function ChanceBreakdown({ factors }: ChanceBreakdownProps) {
+  const steps = buildSteps(factors);
+
+  return (
+    <div className="border-t border-gray-200 px-4 py-3">
+      <h4 className="text-xs font-medium text-gray-600 mb-2">What moved your chance</h4>
+      <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: steps.length * 28 + 24 }}>
+        <BarChart data={steps} layout="vertical" margin={{ left: 8, right: 16, top: 0, bottom: 0 }}>
+          <XAxis type="number" domain={[0, 100]} tickFormatter={(value) => `${value}%`} tickLine={false} axisLine={false} />
+          <YAxis type="category" dataKey="label" width={130} tickLine={false} axisLine={false} />
+          <ChartTooltip
+            cursor={false}
+            content={
+              <ChartTooltipContent
+                hideLabel
+                formatter={(_value, _name, item) => (
+                  <div className="flex w-full justify-between gap-3">
+                    <span className="text-muted-foreground">{item.payload.label}</span>
+                    <span className="font-medium text-foreground">{item.payload.detail}</span>
+                  </div>
+                )}
+              />
+            }
+          />
+          <Bar dataKey="range" radius={3}>
+            {steps.map((step) => (
+              <Cell key={step.label} fill={`var(--color-${step.kind})`} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+    </div>
+  );
+}
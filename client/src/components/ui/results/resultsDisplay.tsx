@@ -4,16 +4,27 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { 
   CheckCircle, Award, Book, School, Lightbulb, AlertTriangle, TrendingUp, 
-  GraduationCap, ScrollText, Medal, Brain, ChevronRight, Plus, Minus 
+  GraduationCap, ScrollText, Medal, Brain, ChevronRight, Plus, Minus, Target, Scale 
 } from "lucide-react";
-import { type AnalysisResult } from "@shared/schema";
+import { 
+  APPLICATION_ROUND_LABELS, AWARD_LEVEL_LABELS, TEST_POLICY_LABELS, type AdmissionData, type AnalysisResult, type CollegeCategory, 
+  type CollegeSelection, type TestingAdvice, type TestScoreComparison 
+} from "@shared/schema";
+import { formatProbability } from "@shared/format";
+import { SuggestedColleges } from "./suggestedColleges";
+import { WhatIfPanel } from "./whatIfPanel";
+import { ChanceBreakdown } from "./chanceBreakdown";
+import { ActivityTierBadge } from "./activityTierBadge";
 
 interface ResultsDisplayProps {
   results: AnalysisResult;
   onReset: () => void;
+  formData?: AdmissionData;
+  onAddCollege?: (college: CollegeSelection) => void;
+  isUpdating?: boolean;
 }
 
-export function ResultsDisplay({ results, onReset }: ResultsDisplayProps) {
+export function ResultsDisplay({ results, onReset, formData, onAddCollege, isUpdating }: ResultsDisplayProps) {
   // Get the appropriate color class based on the college chance color value
   const getColorClass = (color: string) => {
     switch (color) {
@@ -60,6 +71,76 @@ export function ResultsDisplay({ results, onReset }: ResultsDisplayProps) {
     return <AlertTriangle className="h-5 w-5 text-red-500" />;
   };
 
+  const getCategoryLabel = (category: CollegeCategory) => {
+    switch (category) {
+      case "reach": return "Reach";
+      case "target": return "Target";
+      case "likely": return "Likely";
+      default: return "Safety";
+    }
+  };
+  
+  const getCategoryClass = (category: CollegeCategory) => {
+    switch (category) {
+      case "reach": return "bg-red-50 text-red-800 border-red-200";
+      case "target": return "bg-yellow-50 text-yellow-800 border-yellow-200";
+      case "likely": return "bg-emerald-50 text-emerald-800 border-emerald-200";
+      default: return "bg-green-100 text-green-800 border-green-200";
+    }
+  };
+
+  // Show the college's middle-50% range with a marker for the student's score
+  const renderTestScoreRange = (comparison: TestScoreComparison) => {
+    const width = comparison.p75 - comparison.p25;
+    const min = comparison.p25 - width;
+    const max = comparison.p75 + width;
+    const toPercent = (value: number) => Math.min(Math.max(((value - min) / (max - min)) * 100, 0), 100);
+    const positionLabel = comparison.position === "above" ? "Above range" :
+                          comparison.position === "within" ? "Within range" : "Below range";
+    const positionColor = comparison.position === "above" ? "text-green-700" :
+                          comparison.position === "within" ? "text-blue-700" : "text-red-700";
+
+    return (
+      <div className="border-t border-gray-200 px-4 py-3">
+        <div className="flex items-center justify-between text-xs text-gray-600 mb-2">
+          <span>
+            {comparison.test} middle 50%: {comparison.p25}–{comparison.p75} • Your score: {comparison.score}
+          </span>
+          <span className={`font-medium ${positionColor}`}>{positionLabel}</span>
+        </div>
+        <div className="relative h-2 rounded-full bg-gray-200">
+          <div
+            className="absolute h-2 rounded-full bg-blue-300"
+            style={{ left: `${toPercent(comparison.p25)}%`, width: `${toPercent(comparison.p75) - toPercent(comparison.p25)}%` }}
+          ></div>
+          <div
+            className="absolute -top-1 h-4 w-1 rounded bg-gray-800"
+            style={{ left: `calc(${toPercent(comparison.score)}% - 2px)` }}
+          ></div>
+        </div>
+      </div>
+    );
+  };
+
+  // Submit / don't submit recommendation under the college's testing policy
+  const renderTestingAdvice = (advice: TestingAdvice) => {
+    const label = advice.recommendation === "submit" ? "Submit your score" :
+                  advice.recommendation === "withhold" ? "Don't submit" :
+                  advice.recommendation === "missing" ? "Score needed" : "Scores not considered";
+    const labelClass = advice.recommendation === "submit" ? "bg-green-50 text-green-800 border-green-200" :
+                       advice.recommendation === "missing" ? "bg-red-50 text-red-800 border-red-200" :
+                       "bg-gray-50 text-gray-700 border-gray-200";
+
+    return (
+      <div className="border-t border-gray-200 px-4 py-3 flex flex-wrap items-center gap-2">
+        <Badge variant="outline" className="text-xs bg-white text-gray-700 border-gray-300">
+          {TEST_POLICY_LABELS[advice.policy]}
+        </Badge>
+        <Badge variant="outline" className={`text-xs ${labelClass}`} title={advice.reason}>{label}</Badge>
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-8 max-w-3xl mx-auto">
       {/* Fallback mode notification */}
@@ -130,6 +211,40 @@ export function ResultsDisplay({ results, onReset }: ResultsDisplayProps) {
                   <div className="p-4">
                     <p className="text-gray-700 mb-4">{section.content}</p>
                     
+                    {section.title.includes("Extracurricular") && results.activityTiers && results.activityTiers.length > 0 && (
+                      <ul className="space-y-2 mb-4">
+                        {results.activityTiers.map((tier, idx) => (
+                          <li key={idx}>
+                            <p className="text-sm font-medium text-gray-800 mb-1">
+                              {tier.activity}
+                              {tier.commitment.totalHours > 0 && (
+                                <span className="font-normal text-gray-500"> · ≈{tier.commitment.totalHours.toLocaleString("en-US")} hours total</span>
+                              )}
+                            </p>
+                            <ActivityTierBadge tier={tier} />
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    
+                    {section.title.includes("Honor") && results.awardRecognitions?.some((award) => award.knownAs || award.note) && (
+                      <ul className="space-y-2 mb-4">
+                        {results.awardRecognitions.filter((award) => award.knownAs || award.note).map((award, idx) => (
+                          <li key={idx} className="text-sm">
+                            <p className="font-medium text-gray-800">
+                              {award.title}
+                              {award.knownAs && (
+                                <Badge variant="outline" className="ml-2 bg-amber-50 text-amber-800 border-amber-200">
+                                  {award.knownAs} · {AWARD_LEVEL_LABELS[award.level]}
+                                </Badge>
+                              )}
+                            </p>
+                            {award.note && <p className="text-xs text-gray-500 mt-0.5">{award.note}</p>}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    
                     {section.strengths && section.strengths.length > 0 && (
                       <div className="mb-3">
                         <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
@@ -171,6 +286,105 @@ export function ResultsDisplay({ results, onReset }: ResultsDisplayProps) {
         </Card>
       )}
 
+      {/* Whole-List Outcome Card */}
+      {results.listOutcome && (
+        <Card className="bg-white shadow-md rounded-lg border border-gray-200 overflow-hidden">
+          <CardHeader className="bg-gradient-to-r from-indigo-50 to-transparent pb-4">
+            <div className="flex items-center gap-3">
+              <Target className="h-6 w-6 text-indigo-600" />
+              <CardTitle className="text-xl text-gray-800">Your List at a Glance</CardTitle>
+            </div>
+            <CardDescription className="text-sm text-gray-500 mt-1">
+              Based on {results.listOutcome.trials.toLocaleString()} simulated admission cycles across your {results.listOutcome.collegeCount} colleges
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div className="rounded-lg border border-indigo-100 bg-indigo-50 p-4 text-center">
+                <div className="text-3xl font-semibold text-indigo-700">
+                  {formatProbability(results.listOutcome.probabilityAtLeastOne)}
+                </div>
+                <div className="mt-1 text-sm text-gray-600">Chance of at least one admission</div>
+              </div>
+              <div className="rounded-lg border border-indigo-100 bg-indigo-50 p-4 text-center">
+                <div className="text-3xl font-semibold text-indigo-700">
+                  {results.listOutcome.expectedAdmits.toFixed(1)}
+                </div>
+                <div className="mt-1 text-sm text-gray-600">Expected admissions</div>
+              </div>
+              <div className="rounded-lg border border-indigo-100 bg-indigo-50 p-4 text-center">
+                <div className="text-3xl font-semibold text-indigo-700">
+                  {results.listOutcome.probabilityAtLeastOneReach !== null
+                    ? formatProbability(results.listOutcome.probabilityAtLeastOneReach)
+                    : "—"}
+                </div>
+                <div className="mt-1 text-sm text-gray-600">
+                  {results.listOutcome.reachCount > 0
+                    ? `Chance of at least one of your ${results.listOutcome.reachCount} reach${results.listOutcome.reachCount === 1 ? "" : "es"}`
+                    : "No reach schools on your list"}
+                </div>
+              </div>
+            </div>
+            <p className="mt-4 text-xs text-gray-500">
+              Decisions at different colleges tend to move together because every reader sees the same application,
+              so these odds are lower than treating each college as an independent coin flip.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* List Balance Card */}
+      {results.listBalance && (
+        <Card className="bg-white shadow-md rounded-lg border border-gray-200 overflow-hidden">
+          <CardHeader className="bg-gradient-to-r from-amber-50 to-transparent pb-4">
+            <div className="flex items-center gap-3">
+              <Scale className="h-6 w-6 text-amber-600" />
+              <CardTitle className="text-xl text-gray-800">List Balance</CardTitle>
+            </div>
+            <CardDescription className="text-sm text-gray-500 mt-1">
+              {results.listBalance.summary}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-4">
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+              {(["reach", "target", "likely", "safety"] as const).map((category) => (
+                <div key={category} className={`rounded-lg border p-3 text-center ${getCategoryClass(category)}`}>
+                  <div className="text-2xl font-semibold">{results.listBalance!.counts[category]}</div>
+                  <div className="text-xs font-medium uppercase tracking-wide">{getCategoryLabel(category)}</div>
+                </div>
+              ))}
+            </div>
+            
+            {results.listBalance.advice.length > 0 && (
+              <ul className="mt-4 space-y-2">
+                {results.listBalance.advice.map((item, index) => (
+                  <li key={index} className="text-sm text-gray-700 flex items-start gap-2">
+                    <AlertTriangle className="h-4 w-4 text-amber-500 mt-0.5 flex-shrink-0" />
+                    {item}
+                  </li>
+                ))}
+              </ul>
+            )}
+            
+            {results.listBalance.suggestions.length > 0 && (
+              <div className="mt-4">
+                <h4 className="text-sm font-medium text-gray-700 mb-2">Colleges that would fill the gaps</h4>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {results.listBalance.suggestions.map((suggestion) => (
+                    <div key={`${suggestion.category}-${suggestion.collegeId}`} className="flex items-center justify-between rounded-md border border-gray-200 px-3 py-2">
+                      <span className="text-sm text-gray-800">{suggestion.name}</span>
+                      <Badge variant="outline" className={`text-xs ${getCategoryClass(suggestion.category)}`}>
+                        {getCategoryLabel(suggestion.category)} • {formatProbability(suggestion.probability)}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* College Admission Chances Card */}
       <Card className="bg-white shadow-md rounded-lg border border-gray-200 overflow-hidden">
         <CardHeader className="bg-gradient-to-r from-blue-50 to-transparent pb-4">
@@ -180,6 +394,16 @@ export function ResultsDisplay({ results, onReset }: ResultsDisplayProps) {
           </div>
         </CardHeader>
         <CardContent className="pt-4 px-5">
+          {results.applicationPlanWarnings && results.applicationPlanWarnings.length > 0 && (
+            <div className="mb-4 rounded-lg border border-yellow-200 bg-yellow-50 p-3">
+              <h4 className="text-sm font-semibold text-yellow-800 mb-1">Check your application plan</h4>
+              <ul className="space-y-1">
+                {results.applicationPlanWarnings.map((warning, index) => (
+                  <li key={index} className="text-sm text-yellow-700">{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
           <div className="grid gap-4">
             {results.collegeChances.map((college, index) => (
               <div key={index} 
@@ -193,6 +417,21 @@ export function ResultsDisplay({ results, onReset }: ResultsDisplayProps) {
                     <div className="flex items-center gap-2">
                       <h3 className="text-lg font-medium text-gray-800">{college.name}</h3>
                       {index === 0 && <Badge variant="outline" className="text-xs bg-blue-100 text-blue-800 border-blue-200">Top Choice</Badge>}
+                      {college.category && (
+                        <Badge variant="outline" className={`text-xs ${getCategoryClass(college.category)}`}>
+                          {getCategoryLabel(college.category)}
+                        </Badge>
+                      )}
+                      {college.program && (
+                        <Badge variant="outline" className="text-xs bg-white text-gray-700 border-gray-300">
+                          {college.program}
+                        </Badge>
+                      )}
+                      {college.round && college.round !== "RD" && (
+                        <Badge variant="outline" className="text-xs bg-white text-gray-700 border-gray-300">
+                          {APPLICATION_ROUND_LABELS[college.round]}
+                        </Badge>
+                      )}
                     </div>
                     
                     {college.collegeTier && (
@@ -202,19 +441,43 @@ export function ResultsDisplay({ results, onReset }: ResultsDisplayProps) {
                           {college.collegeTier === "ivy-plus" ? "Elite Institution" :
                            college.collegeTier === "tier1" ? "Highly Selective" :
                            college.collegeTier === "tier2" ? "Very Selective" :
-                           college.collegeTier === "tier3" ? "Selective" : "Standard Admission"}
+                           college.collegeTier === "tier3" ? "Selective" :
+                           college.collegeTier === "unlisted" ? "Not in Catalog" : "Standard Admission"}
                         </span>
+                        {college.acceptanceRate !== undefined && (
+                          <span className="text-xs text-gray-500">
+                            • {Math.round(college.acceptanceRate * 1000) / 10}% acceptance rate
+                          </span>
+                        )}
                       </div>
                     )}
                   </div>
                   
-                  <div className="flex items-center gap-2">
-                    {getChanceIcon(college.chance)}
-                    <span className={`px-3 py-1 rounded-full text-sm font-medium border ${getColorClass(college.color)}`}>
-                      {college.chance}
-                    </span>
+                  <div className="flex flex-col items-end gap-1">
+                    <div className="flex items-center gap-2">
+                      {getChanceIcon(college.chance)}
+                      <span className={`px-3 py-1 rounded-full text-sm font-medium border ${getColorClass(college.color)}`}>
+                        {college.chance}
+                      </span>
+                    </div>
+                    {college.probability !== undefined && (
+                      <span className="text-xs text-gray-500">
+                        Best estimate {formatProbability(college.probability)}
+                        {college.lower !== undefined && college.upper !== undefined && 
+                          formatProbability(college.lower) !== formatProbability(college.upper) &&
+                          ` • 80% range ${formatProbability(college.lower)}–${formatProbability(college.upper)}`}
+                      </span>
+                    )}
+                    {college.alternateMajor && (
+                      <span className="text-xs text-gray-500">
+                        {college.alternateMajor.major}: {formatProbability(college.alternateMajor.probability)}
+                      </span>
+                    )}
                   </div>
                 </div>
+                {college.testScoreComparison && renderTestScoreRange(college.testScoreComparison)}
+                {college.testingAdvice && renderTestingAdvice(college.testingAdvice)}
+                {college.factors && college.factors.length > 0 && <ChanceBreakdown factors={college.factors} />}
                 <div className="border-t border-gray-200 px-4 py-3 bg-gray-50">
                   <p className="text-sm text-gray-700 leading-relaxed">{college.feedback}</p>
                 </div>
@@ -224,6 +487,14 @@ export function ResultsDisplay({ results, onReset }: ResultsDisplayProps) {
         </CardContent>
       </Card>
 
+      {/* What-If Simulator Card */}
+      {formData && <WhatIfPanel formData={formData} />}
+
+      {/* Suggested Colleges Card */}
+      {formData && onAddCollege && (
+        <SuggestedColleges formData={formData} onAddCollege={onAddCollege} isUpdating={isUpdating} />
+      )}
+
       {/* Personalized Improvement Plan Card */}
       <Card className="bg-white shadow-md rounded-lg border border-gray-200 overflow-hidden">
         <CardHeader className="bg-gradient-to-r from-green-50 to-transparent pb-4">
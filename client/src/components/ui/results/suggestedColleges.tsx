@@ -0,0 +1,76 @@
+import { useQuery } from "@tanstack/react-query";
+import { Compass, Loader2, PlusCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { type AdmissionData, type CollegeRecommendation, type CollegeSelection } from "@shared/schema";
+
+interface SuggestedCollegesProps {
+  formData: AdmissionData;
+  onAddCollege: (college: CollegeSelection) => void;
+  isUpdating?: boolean;
+}
+
+export function SuggestedColleges({ formData, onAddCollege, isUpdating = false }: SuggestedCollegesProps) {
+  // Recommendations depend on the whole profile, so the form data is part of the cache key
+  const { data, isLoading, isError } = useQuery<{ success: boolean; recommendations: CollegeRecommendation[] }>({
+    queryKey: ["/api/recommendations", formData],
+    queryFn: () => apiRequest({ url: "/api/recommendations", method: "POST", body: formData }),
+  });
+  const recommendations = data?.recommendations || [];
+
+  if (isError || (!isLoading && recommendations.length === 0)) return null;
+
+  return (
+    <Card className="bg-white shadow-md rounded-lg border border-gray-200 overflow-hidden">
+      <CardHeader className="bg-gradient-to-r from-sky-50 to-transparent pb-4">
+        <div className="flex items-center gap-3">
+          <Compass className="h-6 w-6 text-sky-600" />
+          <CardTitle className="text-xl text-gray-800">Suggested Colleges</CardTitle>
+        </div>
+        <CardDescription className="text-sm text-gray-500 mt-1">
+          Colleges from our catalog that fit your profile, major and preferences
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Finding colleges that fit you...
+          </div>
+        ) : (
+          <div className="grid gap-3">
+            {recommendations.map((college) => (
+              <div key={college.collegeId} className="flex items-start justify-between gap-4 rounded-lg border border-gray-200 p-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-medium text-gray-800">{college.name}</h3>
+                    <Badge variant="outline" className="text-xs">
+                      {college.state} • {college.control === "public" ? "Public" : "Private"}
+                    </Badge>
+                  </div>
+                  <ul className="mt-1 space-y-0.5">
+                    {college.reasons.map((reason, index) => (
+                      <li key={index} className="text-sm text-gray-600">{reason}</li>
+                    ))}
+                  </ul>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={isUpdating}
+                  onClick={() => onAddCollege({ id: college.collegeId, name: college.name })}
+                >
+                  <PlusCircle className="h-4 w-4 mr-1" />
+                  Add to list
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
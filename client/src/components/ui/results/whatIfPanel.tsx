@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { ArrowDownRight, ArrowUpRight, Loader2, RotateCcw, SlidersHorizontal } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AWARD_LEVEL_LABELS, GPA_SCALE_RANGES, awardLevelSchema, type AdmissionData, type WhatIfChanges, type WhatIfResult
+} from "@shared/schema";
+import { formatProbability } from "@shared/format";
+
+interface WhatIfPanelProps {
+  formData: AdmissionData;
+}
+
+const AWARD_LEVELS = awardLevelSchema.options;
+
+// Wait for the slider to settle before asking the server
+const UPDATE_DELAY_MS = 300;
+
+const formatChange = (change: number) => {
+  const points = Math.round(change * 100);
+  return `${points > 0 ? "+" : ""}${points} pts`;
+};
+
+export function WhatIfPanel({ formData }: WhatIfPanelProps) {
+  const academics = formData.academics;
+  const gpaRange = GPA_SCALE_RANGES[academics.gpaScale];
+  const gpaStep = gpaRange.max <= 7 ? 0.01 : gpaRange.max <= 20 ? 0.1 : 1;
+  const gpaDecimals = gpaStep === 0.01 ? 2 : gpaStep === 0.1 ? 1 : 0;
+
+  // Starting points are what the student entered; untouched sliders aren't sent as changes
+  const bestSat = Math.max(parseInt(academics.sat || "") || 0, ...(academics.satSittings || []).map(
+    (sitting) => (parseInt(sitting.readingWriting) || 0) + (parseInt(sitting.math) || 0)
+  ));
+  const bestAct = parseInt(academics.act || "") || 0;
+  const topAwardIndex = Math.max(-1, ...formData.honorsAwards
+    .filter((award) => award.title.trim() !== "")
+    .map((award) => AWARD_LEVELS.indexOf(award.level)));
+  const initial = {
+    gpa: parseFloat(academics.gpa) || gpaRange.min,
+    sat: bestSat || 1000,
+    act: bestAct || 20,
+    apCourses: parseInt(academics.apCourses || "") || 0,
+  };
+
+  const [changes, setChanges] = useState<WhatIfChanges>({});
+  const [submittedChanges, setSubmittedChanges] = useState<WhatIfChanges>({});
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSubmittedChanges(changes), UPDATE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [changes]);
+
+  const hasChanges = Object.keys(submittedChanges).length > 0;
+  const { data, isFetching, isError } = useQuery<{ success: boolean; result: WhatIfResult }>({
+    queryKey: ["/api/what-if", formData, submittedChanges],
+    queryFn: () => apiRequest({ url: "/api/what-if", method: "POST", body: { base: formData, changes: submittedChanges } }),
+    enabled: hasChanges,
+    placeholderData: keepPreviousData,
+  });
+  const result = hasChanges ? data?.result : undefined;
+
+  const updateChange = <K extends keyof WhatIfChanges>(key: K, value: WhatIfChanges[K]) => {
+    setChanges((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const awardIndex = changes.topAwardLevel ? AWARD_LEVELS.indexOf(changes.topAwardLevel) : topAwardIndex;
+
+  const sliders = [
+    {
+      label: "GPA",
+      value: changes.gpa ?? initial.gpa,
+      display: changes.gpa !== undefined ? changes.gpa.toFixed(gpaDecimals) : academics.gpa,
+      min: gpaRange.min,
+      max: gpaRange.max,
+      step: gpaStep,
+      // Slider steps accumulate floating-point error
+      onChange: (value: number) => updateChange("gpa", Number(value.toFixed(gpaDecimals))),
+    },
+    {
+      label: "SAT",
+      value: changes.sat ?? initial.sat,
+      display: changes.sat !== undefined ? String(changes.sat) : bestSat ? String(bestSat) : "Not taken",
+      min: 400,
+      max: 1600,
+      step: 10,
+      onChange: (value: number) => updateChange("sat", value),
+    },
+    {
+      label: "ACT",
+      value: changes.act ?? initial.act,
+      display: changes.act !== undefined ? String(changes.act) : bestAct ? String(bestAct) : "Not taken",
+      min: 1,
+      max: 36,
+      step: 1,
+      onChange: (value: number) => updateChange("act", value),
+    },
+    {
+      label: "AP/IB courses",
+      value: changes.apCourses ?? initial.apCourses,
+      display: String(changes.apCourses ?? initial.apCourses),
+      min: 0,
+      max: 20,
+      step: 1,
+      onChange: (value: number) => updateChange("apCourses", value),
+    },
+    {
+      label: "Top award level",
+      value: Math.max(awardIndex, 0),
+      display: awardIndex >= 0 ? AWARD_LEVEL_LABELS[AWARD_LEVELS[awardIndex]] : "No awards",
+      min: 0,
+      max: AWARD_LEVELS.length - 1,
+      step: 1,
+      onChange: (value: number) => updateChange("topAwardLevel", AWARD_LEVELS[value]),
+    },
+  ];
+
+  return (
+    <Card className="bg-white shadow-md rounded-lg border border-gray-200 overflow-hidden">
+      <CardHeader className="bg-gradient-to-r from-indigo-50 to-transparent pb-4">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <SlidersHorizontal className="h-6 w-6 text-indigo-600" />
+            <CardTitle className="text-xl text-gray-800">What If?</CardTitle>
+          </div>
+          <Button type="button" variant="ghost" size="sm" disabled={Object.keys(changes).length === 0} onClick={() => setChanges({})}>
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Reset
+          </Button>
+        </div>
+        <CardDescription className="text-sm text-gray-500 mt-1">
+          See how a retake, more AP courses or a bigger award would change your chances
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-4 space-y-6">
+        <div className="grid gap-5 md:grid-cols-2">
+          {sliders.map((slider) => (
+            <div key={slider.label}>
+              <div className="flex items-center justify-between text-sm mb-2">
+                <span className="font-medium text-gray-700">{slider.label}</span>
+                <span className="text-gray-900">{slider.display}</span>
+              </div>
+              <Slider
+                aria-label={slider.label}
+                value={[slider.value]}
+                min={slider.min}
+                max={slider.max}
+                step={slider.step}
+                onValueChange={([value]) => slider.onChange(value)}
+              />
+            </div>
+          ))}
+        </div>
+
+        {isError && (
+          <p className="text-sm text-destructive">We couldn't evaluate this scenario. Check that the values are valid for your GPA scale.</p>
+        )}
+
+        {!hasChanges ? (
+          <p className="text-sm text-gray-500">Move a slider to compare the scenario with your current profile.</p>
+        ) : !result ? (
+          <div className="flex items-center justify-center py-4 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Recalculating...
+          </div>
+        ) : (
+          <div className={`space-y-3 ${isFetching ? "opacity-60" : ""}`}>
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-600">
+              <span>Academic grade: {result.grades.academic.base} → <strong>{result.grades.academic.scenario}</strong></span>
+              <span>Awards grade: {result.grades.awards.base} → <strong>{result.grades.awards.scenario}</strong></span>
+              {result.probabilityAtLeastOne && (
+                <span>
+                  At least one admission: {formatProbability(result.probabilityAtLeastOne.base)} → <strong>{formatProbability(result.probabilityAtLeastOne.scenario)}</strong>
+                </span>
+              )}
+            </div>
+            <div className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+              {result.colleges.map((college, index) => (
+                <div key={college.collegeId || `${college.name}-${index}`} className="flex items-center justify-between px-4 py-2 text-sm">
+                  <span className="text-gray-800">{college.name}</span>
+                  <span className="flex items-center gap-3">
+                    <span className="text-gray-500">{formatProbability(college.baseProbability)}</span>
+                    <span className="font-medium text-gray-900">{formatProbability(college.probability)}</span>
+                    <span className={`flex w-20 items-center justify-end gap-1 ${
+                      college.change > 0.005 ? "text-green-700" : college.change < -0.005 ? "text-red-700" : "text-gray-500"
+                    }`}>
+                      {college.change > 0.005 && <ArrowUpRight className="h-4 w-4" />}
+                      {college.change < -0.005 && <ArrowDownRight className="h-4 w-4" />}
+                      {formatChange(college.change)}
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,97 @@
+import {
+  type ActivityCommitment, type ActivityTier, type ActivityTierLevel, type Extracurricular, type ScoringRules
+} from "@shared/schema";
+import { parseCommitment } from "./commitment";
+import { classifyRole } from "./leadership";
+import { getScoringRules } from "./scoringRules";
+import { containsPhrase, tokenize } from "./textMatching";
+
+type TierRules = ScoringRules["extracurricular"]["tiers"];
+
+export interface ActivityTierAssessment {
+  // Points toward the extracurricular grade, capped by the rules
+  score: number;
+  tiers: ActivityTier[];
+}
+
+function findDistinction(rules: TierRules, text: string): string | undefined {
+  const tokens = tokenize(text);
+  return rules.distinctionKeywords.find(keyword => containsPhrase(tokens, tokenize(keyword)));
+}
+
+function describeCommitment(commitment: ActivityCommitment): string {
+  return `about ${commitment.totalHours.toLocaleString("en-US")} hours over ${commitment.years} ${commitment.years === 1 ? "year" : "years"}`;
+}
+
+/**
+ * Place an activity in an impact tier from the recognition it earned, how far it reaches beyond the
+ * school, the role held and the time put in. Tier 1 is national distinction; Tier 4 is participation.
+ */
+export function classifyActivityTier(
+  activity: Extracurricular,
+  rules: TierRules = getScoringRules().extracurricular.tiers
+): ActivityTier {
+  const role = classifyRole(activity);
+  const distinction = findDistinction(rules, `${activity.activity} ${activity.role || ""} ${activity.description || ""}`);
+  const commitment = parseCommitment(activity);
+  const committed = commitment.years >= rules.commitment.minYears && commitment.totalHours >= rules.commitment.minTotalHours;
+
+  const national = role.scope === "national" || role.scope === "international";
+  const beyondSchool = role.scope !== "school";
+  const title = role.role || "leader";
+
+  const tier = (level: ActivityTierLevel, reason: string): ActivityTier => ({
+    activity: activity.activity,
+    tier: level,
+    reason: committed ? `${reason}; ${describeCommitment(commitment)}` : reason,
+    commitment,
+  });
+
+  if (distinction && national) {
+    return tier(1, `Recognition at the ${role.scope} level ("${distinction}")`);
+  }
+  if (role.level === "founder" && national) {
+    return tier(1, `Founder or top leader (${title}) of an activity with ${role.scope} reach`);
+  }
+  if (distinction && beyondSchool) {
+    return tier(2, `Recognition at the ${role.scope} level ("${distinction}")`);
+  }
+  if ((role.level === "founder" || role.level === "officer") && beyondSchool) {
+    return tier(2, `Leadership as ${title} in an activity with ${role.scope} reach`);
+  }
+  if (role.level === "founder" && committed) {
+    return tier(2, `Sustained top leadership as ${title}`);
+  }
+  if (national && committed) {
+    return tier(2, `Sustained involvement in a ${role.scope} program`);
+  }
+  if (distinction) {
+    return tier(3, `Recognition within your school ("${distinction}")`);
+  }
+  if (role.level !== "member") {
+    return tier(3, `Leadership as ${title}`);
+  }
+  if (committed) {
+    return tier(3, "Sustained commitment");
+  }
+  if (beyondSchool) {
+    return tier(3, `Participation at the ${role.scope} level`);
+  }
+  return tier(4, "Participation without a leadership role, recognition or sustained time commitment");
+}
+
+/**
+ * Tiers for every activity and their weight in the extracurricular grade: the strongest activity counts
+ * in full and each further activity adds a share of its points, so depth outweighs a long list of clubs
+ */
+export function assessActivityTiers(activities: Extracurricular[]): ActivityTierAssessment {
+  const rules = getScoringRules().extracurricular.tiers;
+  const tiers = activities.map(activity => classifyActivityTier(activity, rules));
+  const ranked = tiers.map(tier => rules.points[tier.tier]).sort((a, b) => b - a);
+
+  const score = ranked.reduce(
+    (total, points, index) => total + (index === 0 ? points : rules.additionalActivityShare * points),
+    0
+  );
+  return { score: Math.min(score, rules.maxPoints), tiers };
+}
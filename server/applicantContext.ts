@@ -0,0 +1,95 @@
+import {
+  type AdmissionData, type ApplicantContext, type CollegeCatalogEntry, type HookWeights
+} from "@shared/schema";
+import { getScoringRules } from "./scoringRules";
+
+type Hook = keyof HookWeights;
+
+const HOOK_LABELS: Record<Hook, string> = {
+  legacy: "Legacy status",
+  firstGeneration: "Being a first-generation college student",
+  pellEligible: "Pell Grant eligibility",
+  recruitedAthlete: "Recruited-athlete support",
+  facultyChild: "Being the child of a faculty or staff member",
+  underrepresentedMinority: "Underrepresented minority status",
+};
+
+// What a strong hook still hinges on, where that's worth saying
+const STRONG_HOOK_CAVEATS: Partial<Record<Hook, string>> = {
+  recruitedAthlete: "it depends on the coaches' final support list",
+};
+
+export interface HookAdjustment {
+  // Log-odds adjustment to the admission model
+  adjustment: number;
+  notes: string[];
+}
+
+function getAppliedHooks(context: ApplicantContext, collegeKey: string): Hook[] {
+  const hooks: Hook[] = [];
+  if (context.legacyColleges.includes(collegeKey)) hooks.push("legacy");
+  if (context.recruitedAthleteColleges.includes(collegeKey)) hooks.push("recruitedAthlete");
+  if (context.facultyChildColleges.includes(collegeKey)) hooks.push("facultyChild");
+  if (context.firstGeneration) hooks.push("firstGeneration");
+  if (context.pellEligible) hooks.push("pellEligible");
+  if (context.underrepresentedMinority) hooks.push("underrepresentedMinority");
+  return hooks;
+}
+
+/**
+ * Weight the student's hooks for one college, using the college's own weights from the catalog where recorded.
+ * Nothing is applied unless the student consented to sharing this context.
+ */
+export function getHookAdjustment(
+  context: ApplicantContext | undefined,
+  collegeKey: string,
+  collegeName: string,
+  college: CollegeCatalogEntry | undefined
+): HookAdjustment {
+  if (!context?.consent) return { adjustment: 0, notes: [] };
+
+  // Weights by control type where the catalog doesn't record the college's own
+  const defaultWeights = getScoringRules().chanceModel.hookWeights;
+  let adjustment = 0;
+  const notes: string[] = [];
+
+  for (const hook of getAppliedHooks(context, collegeKey)) {
+    // Race-conscious admission ended with SFFA v. Harvard (2023), so URM status carries no direct weight
+    if (hook === "underrepresentedMinority") {
+      notes.push(`Since the 2023 Supreme Court decision in SFFA v. Harvard, colleges can't weigh race directly; ${collegeName} can still consider how your background shaped you when you write about it in your essays.`);
+      continue;
+    }
+
+    if (!college) {
+      // A recruited athlete is supported by the coaches wherever we have data on the college
+      if (hook === "recruitedAthlete") {
+        adjustment += defaultWeights.unlistedRecruitedAthlete;
+        notes.push(`${HOOK_LABELS[hook]} typically improves the odds substantially; confirm your standing with the coaching staff.`);
+      }
+      continue;
+    }
+
+    const weight = college.hookWeights[hook] ?? defaultWeights[college.control][hook];
+    adjustment += weight;
+    if (weight === 0) {
+      notes.push(`${collegeName} does not give weight to ${HOOK_LABELS[hook].charAt(0).toLowerCase()}${HOOK_LABELS[hook].slice(1)}.`);
+    } else if (weight >= 1.5) {
+      const caveat = STRONG_HOOK_CAVEATS[hook];
+      notes.push(`${HOOK_LABELS[hook]} is one of the strongest advantages at ${collegeName}${caveat ? `, but ${caveat}` : ""}.`);
+    } else if (weight >= 0.5) {
+      notes.push(`${HOOK_LABELS[hook]} gives you a meaningful advantage at ${collegeName}.`);
+    } else {
+      notes.push(`${HOOK_LABELS[hook]} gives you a modest advantage at ${collegeName}.`);
+    }
+  }
+
+  return { adjustment, notes };
+}
+
+/**
+ * Remove the applicant context before a request is stored for anonymized analytics
+ */
+export function withoutApplicantContext(data: AdmissionData): AdmissionData {
+  const { context: _context, ...rest } = data;
+  return rest;
+}
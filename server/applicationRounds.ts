@@ -0,0 +1,115 @@
+import { APPLICATION_ROUND_LABELS, type ApplicationRound, type CollegeCatalogEntry } from "@shared/schema";
+import { formatRate, logit } from "./chanceModel";
+import { getScoringRules } from "./scoringRules";
+
+/**
+ * The round a college will actually review the application in. A round the college doesn't offer
+ * falls back to regular decision (or its only round, for rolling-only colleges).
+ */
+export function resolveRound(college: CollegeCatalogEntry | undefined, requested: ApplicationRound = "RD"): ApplicationRound {
+  if (!college?.rounds || college.rounds.includes(requested)) return requested;
+  return college.rounds.includes("RD") ? "RD" : college.rounds[0];
+}
+
+export interface RoundAdjustment {
+  round: ApplicationRound;
+  // Log-odds adjustment to the admission model
+  adjustment: number;
+  roundRate?: number;
+  regularRate?: number;
+  overallRate?: number;
+}
+
+/**
+ * Log-odds adjustment for applying in a given round, from the catalog's round-level admit rates
+ */
+export function getRoundAdjustment(college: CollegeCatalogEntry | undefined, round: ApplicationRound): RoundAdjustment {
+  if (!college) return { round, adjustment: 0 };
+
+  const chanceModel = getScoringRules().chanceModel;
+  const rates = college.roundAcceptanceRates;
+  const roundRate = round === "rolling" ? undefined : rates[round];
+  const regularRate = rates.RD;
+  // Early-round admit rates overstate the real advantage: early pools include most recruited athletes,
+  // legacies and other hooked applicants. We credit only the rules' passThrough.round share of the log-odds
+  // gap between the round's published rate and the overall rate to the round itself.
+  if (roundRate !== undefined) {
+    return {
+      round,
+      adjustment: chanceModel.passThrough.round * (logit(roundRate) - logit(college.acceptanceRate)),
+      roundRate,
+      regularRate,
+      overallRate: college.acceptanceRate,
+    };
+  }
+  return {
+    round,
+    // The typical effect when the college offers the round but doesn't publish round-level results
+    adjustment: college.rounds ? chanceModel.typicalRoundEffects[round] : 0,
+    regularRate,
+    overallRate: college.acceptanceRate,
+  };
+}
+
+/**
+ * Explain how the round changes the odds, comparing against the same application in regular decision
+ */
+export function describeRoundEffect(
+  collegeName: string,
+  requested: ApplicationRound,
+  effect: RoundAdjustment,
+  probability: number,
+  regularProbability: number
+): string | null {
+  const label = APPLICATION_ROUND_LABELS[effect.round];
+  const notes: string[] = [];
+
+  if (requested !== effect.round) {
+    notes.push(`${collegeName} doesn't offer ${APPLICATION_ROUND_LABELS[requested]}, so this estimate assumes ${label}.`);
+  }
+
+  if (effect.round === "rolling") {
+    notes.push(`${collegeName} admits on a rolling basis: applying early in the cycle, before seats and scholarships fill, matters more than any deadline.`);
+  } else if (effect.round !== "RD") {
+    const published = effect.roundRate !== undefined && effect.regularRate !== undefined
+      ? `${label} admitted ${formatRate(effect.roundRate)} of applicants versus ${formatRate(effect.regularRate)} in Regular Decision. Early pools are stronger than average, so only part of that gap is a real advantage: `
+      : `${collegeName} doesn't publish round-by-round results, so we apply a typical ${label} advantage: `;
+    notes.push(`${published}about ${formatRate(probability)} for you in ${label} versus ${formatRate(regularProbability)} in Regular Decision.`);
+    if (effect.round === "ED") {
+      notes.push("Early Decision is binding: apply only if you would attend and the financial aid estimate works for your family.");
+    }
+  } else if (effect.roundRate !== undefined && effect.overallRate !== undefined && effect.roundRate < effect.overallRate) {
+    notes.push(`Regular Decision at ${collegeName} admitted only ${formatRate(effect.roundRate)} because many seats are filled in the early round.`);
+  }
+
+  return notes.length > 0 ? notes.join(" ") : null;
+}
+
+/**
+ * Catalog-dependent checks on the application plan. The hard rules (one binding ED, one REA,
+ * no ED alongside REA) are enforced by the schema; these are warnings.
+ */
+export function validateApplicationPlan(
+  entries: { name: string, college?: CollegeCatalogEntry, round: ApplicationRound }[]
+): string[] {
+  const warnings: string[] = [];
+
+  for (const entry of entries) {
+    const resolved = resolveRound(entry.college, entry.round);
+    if (resolved !== entry.round) {
+      warnings.push(`${entry.name} doesn't offer ${APPLICATION_ROUND_LABELS[entry.round]}; we evaluated it as ${APPLICATION_ROUND_LABELS[resolved]}.`);
+    }
+  }
+
+  // Restrictive early action plans generally forbid early applications to other private colleges
+  const restrictive = entries.find(entry => entry.round === "REA");
+  if (restrictive) {
+    for (const entry of entries) {
+      if (entry !== restrictive && entry.round === "EA" && entry.college?.control === "private") {
+        warnings.push(`${restrictive.name}'s Restrictive Early Action doesn't allow Early Action at other private colleges such as ${entry.name}; move it to Regular Decision or choose a public university.`);
+      }
+    }
+  }
+
+  return warnings;
+}
@@ -0,0 +1,131 @@
+import fs from "fs";
+import path from "path";
+import {
+  awardKnowledgeBaseSchema,
+  type AwardKnowledgeBase, type AwardLevel, type AwardRecognition, type HonorAward, type KnownAward
+} from "@shared/schema";
+import { getScoringRules } from "./scoringRules";
+import { containsPhrase, tokenize } from "./textMatching";
+
+// Plain JSON like the catalog, so counselors can add competitions without a code change
+const DEFAULT_KNOWLEDGE_BASE_PATH = path.resolve(process.cwd(), "server", "data", "awardKnowledgeBase.json");
+
+const AWARD_LEVEL_NAMES: Record<AwardLevel, string> = {
+  school: "school",
+  district: "district or regional",
+  state: "state",
+  national: "national",
+  international: "international",
+};
+
+// An award with its aliases and stage keywords tokenized and stemmed once at load time
+interface IndexedAward {
+  award: KnownAward;
+  aliases: string[][];
+  stages: { stage: KnownAward["stages"][number], keywords: string[][] }[];
+}
+
+let knowledgeBase: AwardKnowledgeBase | null = null;
+let awards: IndexedAward[] = [];
+let schoolPhrases: string[][] = [];
+
+/**
+ * Load and validate the award knowledge base from disk, replacing any previously loaded copy
+ */
+export function loadAwardKnowledgeBase(
+  filePath: string = process.env.AWARD_KNOWLEDGE_BASE_PATH || DEFAULT_KNOWLEDGE_BASE_PATH
+): AwardKnowledgeBase {
+  const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  const parsed = awardKnowledgeBaseSchema.parse(raw);
+
+  const ids = new Set<string>();
+  for (const award of parsed.awards) {
+    if (ids.has(award.id)) {
+      throw new Error(`Duplicate award id "${award.id}" in knowledge base ${filePath}`);
+    }
+    ids.add(award.id);
+  }
+
+  knowledgeBase = parsed;
+  awards = parsed.awards.map(award => ({
+    award,
+    aliases: award.aliases.map(tokenize),
+    stages: award.stages.map(stage => ({ stage, keywords: stage.keywords.map(tokenize) })),
+  }));
+  schoolPhrases = parsed.schoolKeywords.map(tokenize);
+  return parsed;
+}
+
+export function getAwardKnowledgeBase(): AwardKnowledgeBase {
+  return knowledgeBase ?? loadAwardKnowledgeBase();
+}
+
+// Length of the longest phrase found in the tokens, or 0 when none is
+function longestMatch(tokens: string[], phrases: string[][]): number {
+  return phrases.reduce((longest, phrase) => containsPhrase(tokens, phrase) ? Math.max(longest, phrase.length) : longest, 0);
+}
+
+// The most specific match wins, for awards ("usa junior mathematical olympiad" over "mathematical olympiad")
+// and for stages ("semi finalist" over "finalist", "distinguished honor roll" over "honor roll")
+function findBest<T>(items: T[], score: (item: T) => number): T | undefined {
+  let best: { item: T, score: number } | undefined;
+  for (const item of items) {
+    const itemScore = score(item);
+    if (itemScore > 0 && (!best || itemScore > best.score)) best = { item, score: itemScore };
+  }
+  return best?.item;
+}
+
+/**
+ * Check an award against the knowledge base. A recognized competition or program gets its known level and
+ * prestige, whatever level was entered; other awards keep the entered level and get the rules' prestige
+ * for it, with a suggested level when the title points to a school award.
+ */
+export function recognizeAward(honor: HonorAward): AwardRecognition {
+  getAwardKnowledgeBase();
+  const levelPrestige = getScoringRules().awards.prestige.levels;
+  const tokens = tokenize(honor.title);
+
+  const known = findBest(awards, indexed => longestMatch(tokens, indexed.aliases));
+  if (!known) {
+    const schoolAward = honor.level !== "school" && schoolPhrases.some(phrase => containsPhrase(tokens, phrase));
+    return {
+      title: honor.title,
+      enteredLevel: honor.level,
+      level: honor.level,
+      prestige: levelPrestige[honor.level],
+      ...(schoolAward && {
+        suggestedLevel: "school" as const,
+        note: "The title suggests an award given by your school; if so, list it at the school level",
+      }),
+    };
+  }
+
+  const stage = findBest(known.stages, indexed => longestMatch(tokens, indexed.keywords))?.stage;
+  const level = stage?.level ?? known.award.level;
+  const knownAs = stage ? `${known.award.name} (${stage.name})` : known.award.name;
+  return {
+    title: honor.title,
+    enteredLevel: honor.level,
+    level,
+    prestige: stage?.prestige ?? known.award.prestige,
+    knownAs,
+    ...(level !== honor.level && {
+      note: `${knownAs} is recognized at the ${AWARD_LEVEL_NAMES[level]} level, so it counts there rather than at the ${AWARD_LEVEL_NAMES[honor.level]} level entered`,
+    }),
+  };
+}
+
+/**
+ * Weighted prestige across all awards, in points toward the awards grade: the most prestigious award counts
+ * in full and each further award adds a share of its points, up to the rules' maximum
+ */
+export function scoreAwardPrestige(recognitions: AwardRecognition[]): number {
+  const rules = getScoringRules().awards.prestige;
+  const ranked = recognitions.map(recognition => recognition.prestige).sort((a, b) => b - a);
+  const prestige = ranked.reduce(
+    (total, value, index) => total + (index === 0 ? value : rules.additionalAwardShare * value),
+    0
+  );
+  return rules.maxPoints * Math.min(prestige, 1);
+}
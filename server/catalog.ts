@@ -0,0 +1,191 @@
+import fs from "fs";
+import path from "path";
+import {
+  collegeCatalogSchema,
+  type CollegeCatalog, type CollegeCatalogEntry
+} from "@shared/schema";
+
+// The catalog is plain JSON so counselors can update admission data without a code change
+const DEFAULT_CATALOG_PATH = path.resolve(process.cwd(), "server", "data", "colleges.json");
+
+let catalog: CollegeCatalog | null = null;
+let nameIndex = new Map<string, CollegeCatalogEntry>();
+let idIndex = new Map<string, CollegeCatalogEntry>();
+
+/**
+ * Normalize a college name for lookups ("The Ohio State University" -> "ohio state university")
+ */
+export function normalizeCollegeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[.,'’()]/g, "")
+    .replace(/[-/]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^the /, "");
+}
+
+/**
+ * Load and validate the college catalog from disk, replacing any previously loaded copy
+ */
+export function loadCollegeCatalog(filePath: string = process.env.COLLEGE_CATALOG_PATH || DEFAULT_CATALOG_PATH): CollegeCatalog {
+  const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  const parsed = collegeCatalogSchema.parse(raw);
+
+  const nextNameIndex = new Map<string, CollegeCatalogEntry>();
+  const nextIdIndex = new Map<string, CollegeCatalogEntry>();
+
+  for (const college of parsed.colleges) {
+    if (nextIdIndex.has(college.id)) {
+      throw new Error(`Duplicate college id "${college.id}" in catalog ${filePath}`);
+    }
+    nextIdIndex.set(college.id, college);
+
+    for (const name of [college.name, ...college.aliases]) {
+      const key = normalizeCollegeName(name);
+      const existing = nextNameIndex.get(key);
+      if (existing && existing.id !== college.id) {
+        throw new Error(`Catalog name "${name}" is used by both "${existing.id}" and "${college.id}"`);
+      }
+      nextNameIndex.set(key, college);
+    }
+  }
+
+  catalog = parsed;
+  nameIndex = nextNameIndex;
+  idIndex = nextIdIndex;
+  return parsed;
+}
+
+export function getCollegeCatalog(): CollegeCatalog {
+  return catalog ?? loadCollegeCatalog();
+}
+
+export function getCollegeById(id: string): CollegeCatalogEntry | undefined {
+  getCollegeCatalog();
+  return idIndex.get(id);
+}
+
+export interface CollegeSearchResult {
+  college: CollegeCatalogEntry;
+  matchedName: string;
+  score: number;
+}
+
+// Minimum similarity for a free-text name to be resolved to a catalog entry without the user picking it
+const RESOLVE_THRESHOLD = 0.85;
+// Minimum similarity for a college to show up in search results
+const SEARCH_THRESHOLD = 0.65;
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+// Score how well a normalized query matches a normalized catalog name (0 = no match, 1 = exact)
+function scoreName(query: string, name: string): number {
+  if (query === name) return 1;
+  if (name.startsWith(query)) return 0.9;
+
+  const queryTokens = query.split(" ");
+  const nameTokens = name.split(" ");
+
+  // Every query word is the start of a word in the name ("univ of mich")
+  if (queryTokens.every(token => nameTokens.some(nameToken => nameToken.startsWith(token)))) {
+    return 0.8;
+  }
+
+  // Typo tolerance: compare the whole string, then word by word
+  const tokenScore = queryTokens.reduce((total, token) =>
+    total + Math.max(...nameTokens.map(nameToken => similarity(token, nameToken))), 0
+  ) / queryTokens.length;
+  const coverage = Math.min(1, queryTokens.length / nameTokens.length);
+  const fuzzyScore = Math.max(similarity(query, name), tokenScore * (0.85 + 0.15 * coverage));
+
+  // A typo never outranks a name that actually starts with the query
+  return Math.max(name.includes(query) ? 0.7 : 0, Math.min(fuzzyScore, 0.89));
+}
+
+/**
+ * Search the catalog by canonical name and aliases, tolerating abbreviations and typos
+ */
+export function searchColleges(query: string, limit = 8): CollegeSearchResult[] {
+  const normalizedQuery = normalizeCollegeName(query);
+  if (!normalizedQuery) return [];
+
+  const results: CollegeSearchResult[] = [];
+  for (const college of getCollegeCatalog().colleges) {
+    let best: CollegeSearchResult | null = null;
+    for (const name of [college.name, ...college.aliases]) {
+      const score = scoreName(normalizedQuery, normalizeCollegeName(name));
+      if (!best || score > best.score) {
+        best = { college, matchedName: name, score };
+      }
+    }
+    if (best && best.score >= SEARCH_THRESHOLD) {
+      results.push(best);
+    }
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.college.name.localeCompare(b.college.name))
+    .slice(0, limit);
+}
+
+/**
+ * Resolve a free-text college name to a catalog entry by its canonical name or one of its aliases,
+ * falling back to a fuzzy match when the name is close enough to be unambiguous
+ */
+export function findCollege(name: string): CollegeCatalogEntry | undefined {
+  getCollegeCatalog();
+  const exact = nameIndex.get(normalizeCollegeName(name));
+  if (exact) return exact;
+
+  const [best, runnerUp] = searchColleges(name, 2);
+  if (best && best.score >= RESOLVE_THRESHOLD && (!runnerUp || runnerUp.score < best.score)) {
+    return best.college;
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a college from the form: the stable catalog ID wins, otherwise the typed name is matched
+ */
+export function resolveCollege(selection: { id?: string, name: string }): CollegeCatalogEntry | undefined {
+  if (selection.id) {
+    const college = getCollegeById(selection.id);
+    if (college) return college;
+  }
+  return findCollege(selection.name);
+}
+
+// Selectivity tier derived from the published acceptance rate
+export function getCollegeTier(college: CollegeCatalogEntry | undefined): string {
+  if (!college) return "unlisted";
+
+  const rate = college.acceptanceRate;
+  if (rate < 0.08) return "ivy-plus";
+  if (rate < 0.20) return "tier1";
+  if (rate < 0.35) return "tier2";
+  if (rate < 0.60) return "tier3";
+  return "tier4";
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { estimateAdmissionChance, formatRate, logit, type ChanceModelInputs } from "./chanceModel";
+
+const applicant: ChanceModelInputs = {
+  acceptanceRate: 0.2,
+  listed: true,
+  academicGrade: "A",
+  extracurricularGrade: "B+",
+  awardsGrade: "B",
+  testScoreAdjustment: 0,
+  hasTestScoreComparison: true,
+  residencyAdjustment: 0,
+  fitMatches: 0,
+  roundAdjustment: 0,
+  programAdjustment: 0,
+  hookAdjustment: 0,
+};
+
+describe("logit", () => {
+  it("is zero at even odds and symmetric around it", () => {
+    expect(logit(0.5)).toBe(0);
+    expect(logit(0.8)).toBeCloseTo(-logit(0.2));
+  });
+
+  it("stays finite for rates of 0% and 100%", () => {
+    expect(Number.isFinite(logit(0))).toBe(true);
+    expect(Number.isFinite(logit(1))).toBe(true);
+    expect(logit(0)).toBe(logit(0.005));
+  });
+});
+
+describe("estimateAdmissionChance", () => {
+  it("returns a probability inside its 80% interval", () => {
+    const estimate = estimateAdmissionChance(applicant);
+    expect(estimate.lower).toBeLessThan(estimate.probability);
+    expect(estimate.upper).toBeGreaterThan(estimate.probability);
+  });
+
+  it("reports factors that add up to the log-odds", () => {
+    const estimate = estimateAdmissionChance({ ...applicant, testScoreAdjustment: 0.4, fitMatches: 1, hookAdjustment: 0.3 });
+    const sum = estimate.factors.reduce((total, term) => total + term.logOdds, 0);
+    expect(sum).toBeCloseTo(estimate.logit);
+    expect(estimate.factors.find(term => term.factor === "testScores")?.logOdds).toBe(0.4);
+    expect(estimate.factors.find(term => term.factor === "hooks")?.logOdds).toBe(0.3);
+  });
+
+  it("rises with stronger grades and falls with lower acceptance rates", () => {
+    const base = estimateAdmissionChance(applicant).probability;
+    expect(estimateAdmissionChance({ ...applicant, academicGrade: "A+" }).probability).toBeGreaterThan(base);
+    expect(estimateAdmissionChance({ ...applicant, academicGrade: "B" }).probability).toBeLessThan(base);
+    expect(estimateAdmissionChance({ ...applicant, acceptanceRate: 0.05 }).probability).toBeLessThan(base);
+  });
+
+  it("moves with each log-odds adjustment", () => {
+    const base = estimateAdmissionChance(applicant).probability;
+    for (const key of ["testScoreAdjustment", "residencyAdjustment", "roundAdjustment", "programAdjustment", "hookAdjustment"] as const) {
+      expect(estimateAdmissionChance({ ...applicant, [key]: 0.5 }).probability).toBeGreaterThan(base);
+      expect(estimateAdmissionChance({ ...applicant, [key]: -0.5 }).probability).toBeLessThan(base);
+    }
+  });
+
+  it("widens the interval for colleges missing from the catalog", () => {
+    const listed = estimateAdmissionChance(applicant);
+    const unlisted = estimateAdmissionChance({ ...applicant, listed: false });
+    expect(unlisted.probability).toBeCloseTo(listed.probability);
+    expect(unlisted.upper - unlisted.lower).toBeGreaterThan(listed.upper - listed.lower);
+  });
+
+  it("widens the interval where the college publishes no test range", () => {
+    const compared = estimateAdmissionChance(applicant);
+    const uncompared = estimateAdmissionChance({ ...applicant, hasTestScoreComparison: false });
+    expect(uncompared.upper - uncompared.lower).toBeGreaterThan(compared.upper - compared.lower);
+  });
+
+  it("keeps estimates strictly between 0 and 1 at open-admission colleges", () => {
+    const estimate = estimateAdmissionChance({ ...applicant, acceptanceRate: 1, academicGrade: "A+" });
+    expect(estimate.upper).toBeLessThan(1);
+    expect(estimate.lower).toBeGreaterThan(0);
+  });
+});
+
+describe("formatRate", () => {
+  it("shows one decimal below 10%", () => {
+    expect(formatRate(0.039)).toBe("3.9%");
+    expect(formatRate(0.05)).toBe("5.0%");
+  });
+
+  it("rounds to whole percentages from 10%", () => {
+    expect(formatRate(0.1)).toBe("10%");
+    expect(formatRate(0.456)).toBe("46%");
+  });
+});
@@ -0,0 +1,135 @@
+import { type ChanceFactorContribution } from "@shared/schema";
+import { getScoringRules } from "./scoringRules";
+
+// Logistic admission model.
+//
+// Every factor moves the log-odds of admission, starting from the log-odds of the college's
+// published acceptance rate:
+//
+//   logit(p) = logit(acceptanceRate)
+//            + ACADEMIC * (academic - pool) + EXTRACURRICULAR * (extracurricular - pool) + AWARDS * (awards - pool)
+//            + test score adjustment + residency adjustment + application round adjustment + program adjustment + hooks
+//            + FIT * fit matches
+//
+// Grades are measured in letter-grade units (B = 0, A = 1, C = -1, each +/- a third of a letter) and
+// compared against the typical applicant to that college ("pool"), because a straight-A record is
+// the norm at a 5% school but stands out at a 60% one. Coefficients are the change in log-odds for
+// one letter grade above the pool; at a 50% college, +1 log-odds moves a student from 50% to 73%.
+// The coefficients and pool strengths live in the scoring rules (see scoringRules.ts).
+
+// What we can't see (essays, recommendations, interviews, institutional needs) dominates the uncertainty, so
+// the standard error of the log-odds (the rules' standardErrors) widens at holistic selective colleges and for
+// colleges we have no data on.
+
+// Two-sided 80% interval
+const INTERVAL_Z = 1.28;
+
+export interface ChanceModelInputs {
+  acceptanceRate: number;
+  listed: boolean;
+  academicGrade: string;
+  extracurricularGrade: string;
+  awardsGrade: string;
+  // Log-odds adjustment from where the test score falls in the college's range
+  testScoreAdjustment: number;
+  hasTestScoreComparison: boolean;
+  // Log-odds adjustment for the student's residency (see residency.ts)
+  residencyAdjustment: number;
+  fitMatches: number;
+  // Log-odds adjustment for the application round (see applicationRounds.ts)
+  roundAdjustment: number;
+  // Log-odds adjustment for majors admitted by program (see majorPrograms.ts)
+  programAdjustment: number;
+  // Log-odds adjustment for consented hooks (see applicantContext.ts)
+  hookAdjustment: number;
+}
+
+export interface ChanceEstimate {
+  probability: number;
+  lower: number;
+  upper: number;
+  logit: number;
+  // Each term of the model; they sum to logit
+  factors: ChanceFactorContribution[];
+}
+
+/**
+ * Log-odds of a probability, clamped so published rates of 0% or 100% stay finite
+ */
+export function logit(p: number): number {
+  const clamped = Math.min(Math.max(p, 0.005), 0.995);
+  return Math.log(clamped / (1 - clamped));
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+// Letter grade to letter-grade units above a B
+function gradeUnits(grade: string): number {
+  const points: Record<string, number> = {
+    "A+": 12, "A": 11, "A-": 10, "B+": 9, "B": 8, "B-": 7,
+    "C+": 6, "C": 5, "C-": 4, "D+": 3, "D": 2,
+  };
+  return ((points[grade] ?? 1) - 8) / 3;
+}
+
+// Typical applicant strength at an acceptance rate, interpolated between the rules' anchors
+function applicantPoolStrength(acceptanceRate: number): number {
+  const anchors = getScoringRules().chanceModel.applicantPoolStrength;
+  if (acceptanceRate <= anchors[0].acceptanceRate) return anchors[0].strength;
+  for (let i = 1; i < anchors.length; i++) {
+    const upper = anchors[i];
+    if (acceptanceRate <= upper.acceptanceRate) {
+      const lower = anchors[i - 1];
+      const fraction = (acceptanceRate - lower.acceptanceRate) / (upper.acceptanceRate - lower.acceptanceRate);
+      return lower.strength + fraction * (upper.strength - lower.strength);
+    }
+  }
+  return anchors[anchors.length - 1].strength;
+}
+
+/**
+ * Estimate the probability of admission with an 80% interval from the logistic model above
+ */
+export function estimateAdmissionChance(inputs: ChanceModelInputs): ChanceEstimate {
+  // Keep the intercept finite for colleges that admit nearly everyone
+  const baseRate = Math.min(Math.max(inputs.acceptanceRate, 0.01), 0.99);
+  const pool = applicantPoolStrength(baseRate);
+  const { coefficients, standardErrors } = getScoringRules().chanceModel;
+
+  const factors: ChanceFactorContribution[] = [
+    { factor: "base", logOdds: logit(baseRate) },
+    { factor: "academic", logOdds: coefficients.academic * (gradeUnits(inputs.academicGrade) - pool) },
+    { factor: "testScores", logOdds: inputs.testScoreAdjustment },
+    { factor: "extracurricular", logOdds: coefficients.extracurricular * (gradeUnits(inputs.extracurricularGrade) - pool) },
+    { factor: "awards", logOdds: coefficients.awards * (gradeUnits(inputs.awardsGrade) - pool) },
+    { factor: "residency", logOdds: inputs.residencyAdjustment },
+    { factor: "round", logOdds: inputs.roundAdjustment },
+    { factor: "program", logOdds: inputs.programAdjustment },
+    { factor: "hooks", logOdds: inputs.hookAdjustment },
+    { factor: "fit", logOdds: coefficients.fit * inputs.fitMatches },
+  ];
+  const score = factors.reduce((sum, term) => sum + term.logOdds, 0);
+
+  let standardError = standardErrors.base;
+  if (baseRate < standardErrors.selectiveAcceptanceRate) standardError += standardErrors.selective;
+  if (!inputs.listed) standardError += standardErrors.unlisted;
+  if (inputs.listed && !inputs.hasTestScoreComparison) standardError += standardErrors.noTestComparison;
+
+  return {
+    probability: sigmoid(score),
+    lower: sigmoid(score - INTERVAL_Z * standardError),
+    upper: sigmoid(score + INTERVAL_Z * standardError),
+    logit: score,
+    factors,
+  };
+}
+
+/**
+ * Format a published admit rate (or an estimate quoted next to one) as a percentage, with one decimal below 10%
+ */
+export function formatRate(rate: number): string {
+  const percent = rate * 100;
+  return `${percent < 10 ? percent.toFixed(1) : Math.round(percent)}%`;
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { parseCommitment, parseHoursPerWeek, parseWeeksPerYear, parseYears } from "./commitment";
+import { getScoringRules } from "./scoringRules";
+
+describe("parseYears", () => {
+  it("reads plain figures and durations", () => {
+    expect(parseYears("3")).toBe(3);
+    expect(parseYears("2.5")).toBe(2.5);
+    expect(parseYears("5+")).toBe(5);
+    expect(parseYears("3 yrs")).toBe(3);
+    expect(parseYears("two years")).toBe(2);
+    expect(parseYears("3 school years")).toBe(3);
+    expect(parseYears("2 summers")).toBe(2);
+    expect(parseYears("6 months")).toBe(0.5);
+  });
+
+  it("counts the grades involved", () => {
+    expect(parseYears("9-12")).toBe(4);
+    expect(parseYears("10th-12th")).toBe(3);
+    expect(parseYears("Grades 9 through 12")).toBe(4);
+    expect(parseYears("9, 10, 11")).toBe(3);
+  });
+
+  it("counts calendar years", () => {
+    expect(parseYears("2022-2025")).toBe(3);
+    expect(parseYears(`since ${new Date().getFullYear() - 2}`)).toBe(2);
+  });
+
+  it("doesn't read a starting grade as a number of years", () => {
+    expect(parseYears("Grade 9")).toBeUndefined();
+    expect(parseYears("since 9th grade")).toBeUndefined();
+    expect(parseYears("9th grade")).toBeUndefined();
+  });
+
+  it("returns undefined for empty or unreadable text", () => {
+    expect(parseYears(undefined)).toBeUndefined();
+    expect(parseYears("")).toBeUndefined();
+    expect(parseYears("a while")).toBeUndefined();
+  });
+});
+
+describe("parseHoursPerWeek", () => {
+  it("reads figures, ranges and other periods", () => {
+    expect(parseHoursPerWeek("10")).toBe(10);
+    expect(parseHoursPerWeek("5-10")).toBe(7.5);
+    expect(parseHoursPerWeek("10+")).toBe(10);
+    expect(parseHoursPerWeek("2 hrs/day")).toBe(10);
+    expect(parseHoursPerWeek("13 hours a month")).toBeCloseTo(3);
+  });
+});
+
+describe("parseWeeksPerYear", () => {
+  const rules = getScoringRules().extracurricular.commitment;
+
+  it("reads figures and common phrases", () => {
+    expect(parseWeeksPerYear("36", rules)).toBe(36);
+    expect(parseWeeksPerYear("10-12", rules)).toBe(11);
+    expect(parseWeeksPerYear("year-round", rules)).toBe(52);
+    expect(parseWeeksPerYear("summers only", rules)).toBe(rules.summerWeeksPerYear);
+    expect(parseWeeksPerYear("school year", rules)).toBe(rules.defaultWeeksPerYear);
+  });
+});
+
+describe("parseCommitment", () => {
+  const rules = getScoringRules().extracurricular.commitment;
+
+  it("multiplies years, weeks and hours into lifetime hours", () => {
+    expect(parseCommitment({ yearsInvolved: "3", hoursPerWeek: "10", weeksPerYear: "30" })).toEqual({
+      years: 3, hoursPerWeek: 10, weeksPerYear: 30, totalHours: 900,
+    });
+  });
+
+  it("defaults the weeks to a school year, or to the summer for summer activities", () => {
+    expect(parseCommitment({ yearsInvolved: "2", hoursPerWeek: "5" }).weeksPerYear).toBe(rules.defaultWeeksPerYear);
+    expect(parseCommitment({ yearsInvolved: "2 summers", hoursPerWeek: "40" }).weeksPerYear).toBe(rules.summerWeeksPerYear);
+  });
+
+  it("caps implausible figures", () => {
+    const commitment = parseCommitment({ yearsInvolved: "20", hoursPerWeek: "100" });
+    expect(commitment.years).toBe(rules.maxYears);
+    expect(commitment.hoursPerWeek).toBe(rules.maxHoursPerWeek);
+  });
+
+  it("counts figures that can't be read as zero", () => {
+    expect(parseCommitment({ yearsInvolved: "Grade 9", hoursPerWeek: "5" })).toMatchObject({ years: 0, totalHours: 0 });
+  });
+});
@@ -0,0 +1,127 @@
+import { type ActivityCommitment, type Extracurricular, type ScoringRules } from "@shared/schema";
+import { getScoringRules } from "./scoringRules";
+
+type CommitmentRules = ScoringRules["extracurricular"]["commitment"];
+
+const NUMBER_WORDS: Record<string, number> = {
+  half: 0.5, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+// High school grades, so "9-12" reads as four years rather than ten and a half
+const FIRST_GRADE = 6;
+const LAST_GRADE = 12;
+
+const WEEKS_PER_MONTH = 52 / 12;
+// Daily practice is counted on school days
+const DAYS_PER_WEEK = 5;
+
+function spellOutNumbers(text: string): string {
+  return text.replace(/\b(half|one|two|three|four|five|six|seven|eight|nine|ten)\b/g, word => ` ${NUMBER_WORDS[word]} `);
+}
+
+function numbersIn(text: string): number[] {
+  return (spellOutNumbers(text).match(/\d+(?:\.\d+)?/g) || []).map(Number);
+}
+
+// A single figure, or the midpoint of a range ("5-10", "5 to 10")
+function readAmount(text: string): number | undefined {
+  const range = text.match(/(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)/);
+  if (range) return (Number(range[1]) + Number(range[2])) / 2;
+  return numbersIn(text)[0];
+}
+
+const isGrade = (value: number) => Number.isInteger(value) && value >= FIRST_GRADE && value <= LAST_GRADE;
+
+// Four-digit calendar years, read as when the activity started and ended rather than as a count
+const FIRST_CALENDAR_YEAR = 1990;
+const isCalendarYear = (value: number) =>
+  Number.isInteger(value) && value >= FIRST_CALENDAR_YEAR && value <= new Date().getFullYear() + 1;
+
+// A figure counts as a duration when it stands alone ("3", "5+") or carries a unit ("3 yrs", "two summers").
+// A lone grade ("Grade 9", "since 9th grade") says when the activity started, not how long it has run.
+const DURATION = /^\s*\d+(?:\.\d+)?\s*\+?\s*$|\d\s*\+?\s*(?:[a-z]+\s+)?(?:years?|yrs?|months?|summers?|seasons?)\b/;
+
+// Years from calendar years: "2022-2025" is three school years, "since 2022" or "2022-present" runs to now
+function calendarYears(numbers: number[]): number | undefined {
+  const years = numbers.filter(isCalendarYear);
+  if (years.length === 0) return undefined;
+  const start = Math.min(...years);
+  const end = years.length > 1 ? Math.max(...years) : new Date().getFullYear();
+  return Math.max(end - start, 1);
+}
+
+/**
+ * Years of involvement from free text: "2.5", "3 yrs", "5+", "two years", "6 months", the grades
+ * involved ("9-12", "10th-12th", "9, 10, 11"), or the calendar years ("2022-2025", "since 2022").
+ * A starting grade alone ("since 9th grade") can't be read without the student's current grade.
+ */
+export function parseYears(text?: string): number | undefined {
+  const value = (text || "").toLowerCase().trim();
+  if (!value) return undefined;
+
+  const gradeRange = value.match(/(\d{1,2})(?:th)?\s*(?:-|–|to|through)\s*(\d{1,2})(?:th)?/);
+  if (gradeRange && isGrade(Number(gradeRange[1])) && isGrade(Number(gradeRange[2])) && Number(gradeRange[2]) >= Number(gradeRange[1])) {
+    return Number(gradeRange[2]) - Number(gradeRange[1]) + 1;
+  }
+  const numbers = numbersIn(value);
+  if (numbers.length > 1 && numbers.every(isGrade)) return numbers.length;
+  const fromCalendar = calendarYears(numbers);
+  if (fromCalendar !== undefined) return fromCalendar;
+
+  if (!DURATION.test(spellOutNumbers(value))) return undefined;
+  const amount = readAmount(value);
+  if (amount === undefined) return undefined;
+  return /month/.test(value) ? amount / 12 : amount;
+}
+
+/**
+ * Hours a week from free text: "10", "5-10", "10+", "2 hrs/day", "8 hours a month"
+ */
+export function parseHoursPerWeek(text?: string): number | undefined {
+  const value = (text || "").toLowerCase().trim();
+  const amount = readAmount(value);
+  if (amount === undefined) return undefined;
+  if (/\b(day|daily|night|nightly)\b/.test(value)) return amount * DAYS_PER_WEEK;
+  if (/\bmonth(ly)?\b/.test(value)) return amount / WEEKS_PER_MONTH;
+  return amount;
+}
+
+/**
+ * Weeks a year from free text: "36", "10-12", "year-round", "summers only"
+ */
+export function parseWeeksPerYear(text: string | undefined, rules: CommitmentRules): number | undefined {
+  const value = (text || "").toLowerCase().trim();
+  if (!value) return undefined;
+  if (/year[\s-]*round|all year|every week/.test(value)) return 52;
+  const amount = readAmount(value);
+  if (amount !== undefined) return /month/.test(value) ? amount * WEEKS_PER_MONTH : amount;
+  if (/summer/.test(value)) return rules.summerWeeksPerYear;
+  if (/school year/.test(value)) return rules.defaultWeeksPerYear;
+  return undefined;
+}
+
+/**
+ * Years, hours a week, weeks a year and total lifetime hours of an activity, as the Common App asks for
+ * them. Weeks not given default to a school year, or to the summer when the years or hours mention
+ * summers; figures that can't be read count as zero.
+ */
+export function parseCommitment(
+  activity: Pick<Extracurricular, "yearsInvolved" | "hoursPerWeek" | "weeksPerYear">,
+  rules: CommitmentRules = getScoringRules().extracurricular.commitment
+): ActivityCommitment {
+  const summersOnly = /summer/i.test(`${activity.yearsInvolved || ""} ${activity.hoursPerWeek || ""}`);
+  // "Summers only" without a figure is read as one summer
+  const years = Math.min(parseYears(activity.yearsInvolved) ?? (summersOnly ? 1 : 0), rules.maxYears);
+  const hoursPerWeek = Math.min(parseHoursPerWeek(activity.hoursPerWeek) ?? 0, rules.maxHoursPerWeek);
+  const weeksPerYear = Math.min(
+    parseWeeksPerYear(activity.weeksPerYear, rules) ?? (summersOnly ? rules.summerWeeksPerYear : rules.defaultWeeksPerYear),
+    52
+  );
+
+  return {
+    years,
+    hoursPerWeek: Math.round(hoursPerWeek * 10) / 10,
+    weeksPerYear: Math.round(weeksPerYear),
+    totalHours: Math.round(years * weeksPerYear * hoursPerWeek),
+  };
+}
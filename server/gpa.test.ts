@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { describeGpa, normalizeGpa } from "./gpa";
+
+describe("normalizeGpa", () => {
+  it("keeps a 4.0-scale GPA as entered", () => {
+    expect(normalizeGpa("3.75")).toBe(3.75);
+    expect(normalizeGpa("3.75", "4.0")).toBe(3.75);
+  });
+
+  it("converts the top of every scale to 4.0", () => {
+    expect(normalizeGpa("5.0", "5.0")).toBe(4);
+    expect(normalizeGpa("6.0", "6.0")).toBe(4);
+    expect(normalizeGpa("97", "100")).toBe(4);
+    expect(normalizeGpa("7", "ib")).toBe(4);
+    expect(normalizeGpa("10", "10")).toBe(4);
+    expect(normalizeGpa("17", "20")).toBe(4);
+  });
+
+  it("discounts weighted scales so an AP-heavy 4.5 isn't read as a perfect record", () => {
+    expect(normalizeGpa("4.5", "5.0")).toBe(3.85);
+    expect(normalizeGpa("5.0", "6.0")).toBe(3.7);
+  });
+
+  it("interpolates between anchors", () => {
+    expect(normalizeGpa("91.5", "100")).toBe(3.85);
+    expect(normalizeGpa("6.5", "ib")).toBe(3.9);
+    expect(normalizeGpa("15", "20")).toBe(3.85);
+  });
+
+  it("returns null for values that aren't numbers", () => {
+    expect(normalizeGpa("", "4.0")).toBeNull();
+    expect(normalizeGpa("A-", "100")).toBeNull();
+  });
+});
+
+describe("describeGpa", () => {
+  it("shows the original value and scale next to the 4.0 equivalent", () => {
+    expect(describeGpa("3.8", "4.0", 3.8)).toBe("3.8");
+    expect(describeGpa("92", "100", 3.9)).toMatch(/^92 \(.*, ≈3\.90 on a 4\.0 scale\)$/);
+  });
+});
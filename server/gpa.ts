@@ -0,0 +1,47 @@
+import { GPA_SCALE_LABELS, type GpaScale } from "@shared/schema";
+
+// Conversion anchors from each scale to a 4.0 unweighted equivalent, highest first.
+// Values between anchors are interpolated linearly.
+const SCALE_ANCHORS: Record<GpaScale, [number, number][]> = {
+  // Already on the common scale
+  "4.0": [[4.0, 4.0], [0, 0]],
+  // Weighted 5.0 scale: an A in an honors/AP course earns 5.0, so the top of the scale is discounted
+  "5.0": [[5.0, 4.0], [4.5, 3.85], [4.0, 3.6], [3.5, 3.2], [3.0, 2.8], [2.0, 2.0], [0, 0]],
+  // Weighted 6.0 scale (common in Texas): regular A = 5.0, AP A = 6.0
+  "6.0": [[6.0, 4.0], [5.0, 3.7], [4.5, 3.3], [4.0, 3.0], [3.0, 2.0], [0, 0]],
+  // 100-point US transcripts using the standard letter-grade bands (93+ = A, 90 = A-, 87 = B+ ...)
+  "100": [[100, 4.0], [93, 4.0], [90, 3.7], [87, 3.3], [83, 3.0], [80, 2.7], [77, 2.3], [73, 2.0], [70, 1.7], [65, 1.0], [0, 0]],
+  // IB Diploma: average of subject grades on the 1–7 scale
+  "ib": [[7, 4.0], [6, 3.8], [5, 3.3], [4, 2.7], [3, 2.0], [2, 1.0], [1, 0]],
+  // 10-point CGPA systems (India, Nepal and others)
+  "10": [[10, 4.0], [9, 3.9], [8, 3.6], [7, 3.2], [6, 2.8], [5, 2.3], [4, 1.7], [0, 0]],
+  // 20-point systems (France, Belgium and others), where 16+ is exceptional
+  "20": [[20, 4.0], [16, 4.0], [14, 3.7], [12, 3.3], [10, 2.7], [8, 1.7], [0, 0]],
+};
+
+/**
+ * Convert a GPA reported on any supported scale to its 4.0 unweighted equivalent.
+ * Returns null when the value can't be parsed.
+ */
+export function normalizeGpa(value: string, scale: GpaScale = "4.0"): number | null {
+  const gpa = parseFloat(value);
+  if (Number.isNaN(gpa)) return null;
+
+  const anchors = SCALE_ANCHORS[scale];
+  if (gpa >= anchors[0][0]) return anchors[0][1];
+
+  for (let i = 1; i < anchors.length; i++) {
+    const [upperValue, upperGpa] = anchors[i - 1];
+    const [lowerValue, lowerGpa] = anchors[i];
+    if (gpa >= lowerValue) {
+      const fraction = (gpa - lowerValue) / (upperValue - lowerValue);
+      return Math.round((lowerGpa + fraction * (upperGpa - lowerGpa)) * 100) / 100;
+    }
+  }
+  return anchors[anchors.length - 1][1];
+}
+
+export function describeGpa(value: string, scale: GpaScale, normalized: number): string {
+  if (scale === "4.0") return `${normalized}`;
+  return `${value} (${GPA_SCALE_LABELS[scale]}, ≈${normalized.toFixed(2)} on a 4.0 scale)`;
+}
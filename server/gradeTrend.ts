@@ -0,0 +1,60 @@
+import { GRADE_YEAR_LABELS, type AcademicInfo, type GradeTrend, type TermGpa } from "@shared/schema";
+import { normalizeGpa } from "./gpa";
+import { getScoringRules } from "./scoringRules";
+import { transcriptYearGpas } from "./transcript";
+
+// Within a grade year the fall semester comes first and a full-year GPA sits between the two semesters
+const TERM_ORDER: Record<TermGpa["term"], number> = { fall: 0, year: 1, spring: 2 };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function termLabel(term: TermGpa): string {
+  const year = GRADE_YEAR_LABELS[term.gradeYear];
+  return term.term === "year" ? year : `${term.term} of ${year}`;
+}
+
+/**
+ * Trajectory of the student's grades, from the term GPAs entered or else from the transcript's grade years.
+ * The direction compares the first and last terms; a dip is a drop from one term to the next that a later
+ * term recovered from, which a downward trend ending on the drop isn't. Undefined with fewer terms than the
+ * rules' minimum.
+ */
+export function analyzeGradeTrend(academics: AcademicInfo): GradeTrend | undefined {
+  const rules = getScoringRules().academic.trend;
+  const source = academics.termGpas?.length ? "terms" : "transcript";
+  // Transcript GPAs are already on the 4.0 scale
+  const scale = source === "terms" ? academics.gpaScale : "4.0";
+  const entered = source === "terms" ? academics.termGpas! : transcriptYearGpas(academics.transcript || []);
+
+  const terms = [...entered]
+    .sort((a, b) => Number(a.gradeYear) - Number(b.gradeYear) || TERM_ORDER[a.term] - TERM_ORDER[b.term])
+    .flatMap(term => {
+      const gpa = normalizeGpa(term.gpa, scale);
+      return gpa === null ? [] : [{ label: termLabel(term), gpa }];
+    });
+  if (terms.length < rules.minTerms) return undefined;
+
+  const change = round2(terms[terms.length - 1].gpa - terms[0].gpa);
+  const direction = change >= rules.changeThreshold ? "upward" : change <= -rules.changeThreshold ? "downward" : "steady";
+
+  // The largest drop into a term that isn't the last, with a later term back above it
+  let dip: GradeTrend["dip"];
+  for (let i = 1; i < terms.length - 1; i++) {
+    const drop = round2(terms[i - 1].gpa - terms[i].gpa);
+    const recovered = terms.slice(i + 1).some(term => term.gpa - terms[i].gpa >= rules.dipThreshold / 2);
+    if (drop >= rules.dipThreshold && recovered && (!dip || drop > dip.drop)) {
+      dip = { label: terms[i].label, gpa: terms[i].gpa, drop };
+    }
+  }
+
+  return { source, terms, direction, change, ...(dip && { dip }) };
+}
+
+/**
+ * Points added to the academic grade for the trend: readers reward growth and discount a decline
+ */
+export function scoreGradeTrend(trend: GradeTrend | undefined): number {
+  if (!trend) return 0;
+  const points = getScoringRules().academic.trend.points;
+  return points[trend.direction] + (trend.dip ? points.dip : 0);
+}
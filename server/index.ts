@@ -3,6 +3,10 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import * as dotenv from "dotenv";
 import { initEmailService } from "./email";
+import { loadCollegeCatalog } from "./catalog";
+import { loadScoringRules, watchScoringRules } from "./scoringRules";
+import { loadMajorTaxonomy } from "./majorTaxonomy";
+import { loadAwardKnowledgeBase } from "./awardKnowledgeBase";
 
 // Load environment variables from .env file
 dotenv.config();
@@ -48,6 +52,24 @@ app.use((req, res, next) => {
     console.warn("Email service not initialized. Verification codes will only be displayed in the console.");
   }
   
+  // Load the college catalog up front so a malformed dataset fails fast
+  const catalog = loadCollegeCatalog();
+  log(`loaded college catalog ${catalog.version} (${catalog.colleges.length} colleges)`);
+  
+  // Same for the scoring rules, which are then reloaded whenever the file changes
+  const rules = loadScoringRules();
+  log(`loaded scoring rules ${rules.version}`);
+  watchScoringRules(
+    (reloaded) => log(`reloaded scoring rules ${reloaded.version}`),
+    (error) => console.error("Scoring rules not reloaded; keeping the previous version:", error)
+  );
+  
+  const taxonomy = loadMajorTaxonomy();
+  log(`loaded major taxonomy ${taxonomy.version} (${taxonomy.families.length} families)`);
+  
+  const awardKnowledgeBase = loadAwardKnowledgeBase();
+  log(`loaded award knowledge base ${awardKnowledgeBase.version} (${awardKnowledgeBase.awards.length} awards)`);
+  
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
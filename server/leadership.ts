@@ -0,0 +1,104 @@
+import { type LeadershipLevel, type LeadershipScope, type ScoringRules } from "@shared/schema";
+import { getScoringRules } from "./scoringRules";
+import { containsPhrase, tokenize } from "./textMatching";
+
+type LeadershipRules = ScoringRules["extracurricular"]["leadership"];
+
+export interface RoleClassification {
+  activity: string;
+  role?: string;
+  level: LeadershipLevel;
+  scope: LeadershipScope;
+  // Level points scaled by scope
+  points: number;
+}
+
+export interface LeadershipAssessment {
+  // Points toward the extracurricular grade, capped by the rules
+  score: number;
+  // The strongest role, if any activity has a leadership role
+  top?: RoleClassification;
+  roles: RoleClassification[];
+}
+
+// Drop every occurrence of the phrase from the tokens
+function removePhrase(tokens: string[], phrase: string[]): string[] {
+  const remaining: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (phrase.length > 0 && phrase.every((word, offset) => tokens[i + offset] === word)) {
+      i += phrase.length - 1;
+    } else {
+      remaining.push(tokens[i]);
+    }
+  }
+  return remaining;
+}
+
+function classifyLevel(rules: LeadershipRules, role: string, description: string): { level: LeadershipLevel, points: number } {
+  const roleTokens = tokenize(role);
+  const descriptionTokens = tokenize(description);
+
+  // The longest matching phrase is the most specific: "vice president" over "president",
+  // "committee chair" over "chair"
+  let best: { level: LeadershipLevel, points: number, length: number } | null = null;
+  for (const level of rules.levels) {
+    for (const keyword of level.roleKeywords) {
+      const phrase = tokenize(keyword);
+      if (containsPhrase(roleTokens, phrase) && (!best || phrase.length > best.length)) {
+        best = { level: level.level, points: level.points, length: phrase.length };
+      }
+    }
+  }
+  if (best) return best;
+
+  // Without a matching title, the description can still show the role ("founded the club")
+  const described = rules.levels.find(level =>
+    level.descriptionKeywords.some(keyword => containsPhrase(descriptionTokens, tokenize(keyword)))
+  );
+  return described ? { level: described.level, points: described.points } : { level: "member", points: 0 };
+}
+
+function classifyScope(rules: LeadershipRules, text: string): { scope: LeadershipScope, multiplier: number } {
+  // "President of the National Honor Society" leads a school chapter, not a national organization
+  const tokens = rules.chapterOrganizations.reduce(
+    (remaining, organization) => removePhrase(remaining, tokenize(organization)),
+    tokenize(text)
+  );
+  const scope = rules.scopes.find(scope => scope.keywords.some(keyword => containsPhrase(tokens, tokenize(keyword))));
+  return scope ? { scope: scope.scope, multiplier: scope.multiplier } : { scope: "school", multiplier: 1 };
+}
+
+/**
+ * Classify the role held in an activity by level (founder or top leader, officer, committee lead, member)
+ * and by how far the activity reaches beyond the school
+ */
+export function classifyRole(
+  activity: { activity: string, role?: string, description?: string },
+  rules: LeadershipRules = getScoringRules().extracurricular.leadership
+): RoleClassification {
+  const { level, points } = classifyLevel(rules, activity.role || "", activity.description || "");
+  const { scope, multiplier } = classifyScope(rules, `${activity.activity} ${activity.role || ""} ${activity.description || ""}`);
+  return {
+    activity: activity.activity,
+    role: activity.role,
+    level,
+    scope,
+    points: points * multiplier,
+  };
+}
+
+/**
+ * Weighted leadership across all activities: the strongest role counts in full and each further
+ * role adds a share of its points, up to the cap
+ */
+export function assessLeadership(activities: { activity: string, role?: string, description?: string }[]): LeadershipAssessment {
+  const rules = getScoringRules().extracurricular.leadership;
+  const roles = activities.map(activity => classifyRole(activity, rules));
+  const ranked = roles.filter(role => role.level !== "member").sort((a, b) => b.points - a.points);
+
+  const score = ranked.reduce(
+    (total, role, index) => total + (index === 0 ? role.points : rules.additionalRoleShare * role.points),
+    0
+  );
+  return { score: Math.min(score, rules.maxPoints), top: ranked[0], roles };
+}
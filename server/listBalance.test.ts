@@ -0,0 +1,84 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { type CollegeCatalogEntry, type CollegeCategory } from "@shared/schema";
+import { getCollegeCatalog } from "./catalog";
+import { analyzeListBalance, classifyCollege } from "./listBalance";
+import { getScoringRules, loadScoringRules } from "./scoringRules";
+
+const list = (...categories: CollegeCategory[]) => categories.map(category => ({ category }));
+
+// Every catalog college evaluates to the same category
+const evaluateAs = (category: CollegeCategory) => () => ({ probability: 0.5, category });
+
+describe("classifyCollege", () => {
+  const rules = getScoringRules().listBalance;
+
+  it("calls the most selective colleges reaches whatever the estimate", () => {
+    expect(classifyCollege({ probability: 0.95, lower: 0.9, acceptanceRate: rules.alwaysReachAcceptanceRate / 2 })).toBe("reach");
+  });
+
+  it("classifies by the estimate between the cutoffs", () => {
+    expect(classifyCollege({ probability: rules.targetProbability - 0.01, lower: 0.1, acceptanceRate: 0.6 })).toBe("reach");
+    expect(classifyCollege({ probability: rules.targetProbability, lower: 0.1, acceptanceRate: 0.6 })).toBe("target");
+    expect(classifyCollege({ probability: rules.likelyProbability, lower: 0.5, acceptanceRate: 0.6 })).toBe("likely");
+  });
+
+  it("needs a high floor and a high acceptance rate for a safety", () => {
+    const safe = { probability: rules.safety.probability, lower: rules.safety.lowerBound, acceptanceRate: rules.safety.minAcceptanceRate };
+    expect(classifyCollege(safe)).toBe("safety");
+    expect(classifyCollege({ ...safe, lower: rules.safety.lowerBound - 0.1 })).toBe("likely");
+    expect(classifyCollege({ ...safe, acceptanceRate: rules.safety.minAcceptanceRate - 0.1 })).toBe("likely");
+  });
+
+  it("never calls a college without catalog data a safety", () => {
+    expect(classifyCollege({ probability: 0.99, lower: 0.95 })).toBe("likely");
+  });
+});
+
+describe("analyzeListBalance", () => {
+  const catalog: CollegeCatalogEntry[] = getCollegeCatalog().colleges;
+
+  afterEach(() => {
+    loadScoringRules();
+  });
+
+  it("counts a balanced list and suggests nothing", () => {
+    const balance = analyzeListBalance(
+      list("reach", "reach", "target", "target", "target", "likely", "likely", "safety"),
+      catalog,
+      evaluateAs("target")
+    );
+    expect(balance.counts).toEqual({ reach: 2, target: 3, likely: 2, safety: 1 });
+    expect(balance.balanced).toBe(true);
+    expect(balance.summary).toMatch(/^Well balanced/);
+    expect(balance.suggestions).toEqual([]);
+  });
+
+  it("asks for likely colleges and a safety on a list of reaches", () => {
+    const balance = analyzeListBalance(list("reach", "reach", "reach", "reach", "reach"), catalog, evaluateAs("likely"));
+    expect(balance.balanced).toBe(false);
+    expect(balance.summary).toBe("5 reaches, 0 safeties: add at least two likely schools.");
+    expect(balance.suggestions.length).toBeGreaterThan(0);
+    expect(balance.suggestions.every(suggestion => suggestion.category === "likely")).toBe(true);
+  });
+
+  it("suggests only catalog colleges not already on the list", () => {
+    const listed = catalog[0];
+    const balance = analyzeListBalance([{ collegeId: listed.id, category: "reach" }], catalog, evaluateAs("safety"));
+    expect(balance.suggestions.some(suggestion => suggestion.collegeId === listed.id)).toBe(false);
+  });
+
+  it("writes larger minimums as digits", () => {
+    const rules = getScoringRules();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "scoring-rules-"));
+    const file = path.join(dir, "scoringRules.json");
+    fs.writeFileSync(file, JSON.stringify({ ...rules, listBalance: { ...rules.listBalance, minLikelyOrSafer: 12 } }));
+    loadScoringRules(file);
+    fs.rmSync(dir, { recursive: true });
+
+    const balance = analyzeListBalance(list("reach"), catalog, evaluateAs("reach"));
+    expect(balance.summary).toBe("1 reach, 0 safeties: add at least 12 likely schools.");
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  type CollegeCatalogEntry, type CollegeCategory, type CollegeSuggestion, type ListBalance
+} from "@shared/schema";
+import { getScoringRules } from "./scoringRules";
+
+/**
+ * Classify a college as reach, target, likely or safety from the model estimate and its interval.
+ * Colleges with no catalog data (no acceptance rate) are never called safeties.
+ */
+export function classifyCollege(chance: { probability: number, lower: number, acceptanceRate?: number }): CollegeCategory {
+  const rules = getScoringRules().listBalance;
+  // Colleges this selective are reaches for everyone: holistic review makes no profile a sure thing
+  if (chance.acceptanceRate !== undefined && chance.acceptanceRate < rules.alwaysReachAcceptanceRate) return "reach";
+  if (chance.probability < rules.targetProbability) return "reach";
+  if (chance.probability < rules.likelyProbability) return "target";
+  // A safety needs a high floor as well as a high estimate, at a college that admits most applicants
+  if (
+    chance.acceptanceRate !== undefined &&
+    chance.acceptanceRate >= rules.safety.minAcceptanceRate &&
+    chance.probability >= rules.safety.probability &&
+    chance.lower >= rules.safety.lowerBound
+  ) {
+    return "safety";
+  }
+  return "likely";
+}
+
+function countPhrase(count: number, singular: string, plural: string): string {
+  return `${count} ${count === 1 ? singular : plural}`;
+}
+
+const NUMBER_WORDS = ["zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten"];
+
+// Small counts in words, larger ones as digits
+function countWord(count: number): string {
+  return NUMBER_WORDS[count] ?? String(count);
+}
+
+/**
+ * Analyze the balance of the whole list and suggest catalog colleges for any missing category
+ */
+export function analyzeListBalance(
+  chances: { collegeId?: string, category: CollegeCategory }[],
+  catalog: CollegeCatalogEntry[],
+  evaluate: (college: { id: string, name: string }) => { probability: number, category: CollegeCategory }
+): ListBalance {
+  const rules = getScoringRules().listBalance;
+  const counts = { reach: 0, target: 0, likely: 0, safety: 0 };
+  for (const chance of chances) counts[chance.category]++;
+  const total = chances.length;
+  const likelyOrSafer = counts.likely + counts.safety;
+
+  const advice: string[] = [];
+  const neededCategories: CollegeCategory[] = [];
+
+  // Counselors generally recommend 8–12 colleges with at least two likely-or-safer options
+  if (likelyOrSafer < rules.minLikelyOrSafer) {
+    const missing = rules.minLikelyOrSafer - likelyOrSafer;
+    advice.push(`${countPhrase(counts.reach, "reach", "reaches")}, ${countPhrase(counts.safety, "safety", "safeties")}: add at least ${countWord(missing)} likely ${missing === 1 ? "school" : "schools"}.`);
+    neededCategories.push("likely");
+  }
+  if (counts.safety === 0) {
+    advice.push("No safety school: include at least one college you are all but certain to get into and would be happy to attend.");
+    neededCategories.push("safety");
+  }
+  if (counts.reach >= 4 && counts.reach > total / 2) {
+    advice.push(`${counts.reach} of your ${total} colleges are reaches: the list is top-heavy, so trade a few for targets.`);
+  }
+  if (counts.target === 0 && total >= 3) {
+    advice.push("No targets: add two or three colleges where your profile is typical of admitted students.");
+    neededCategories.push("target");
+  }
+  if (counts.reach === 0 && total >= 3) {
+    advice.push("No reaches: consider one or two ambitious colleges so you aren't selling yourself short.");
+    neededCategories.push("reach");
+  }
+  if (total < rules.minListSize) {
+    advice.push(`Only ${countPhrase(total, "college", "colleges")} on your list: most students apply to 8–12 to spread out the risk.`);
+  }
+
+  const summary = advice.length > 0
+    ? advice[0]
+    : `Well balanced: ${countPhrase(counts.reach, "reach", "reaches")}, ${countPhrase(counts.target, "target", "targets")}, ${counts.likely} likely and ${countPhrase(counts.safety, "safety", "safeties")}.`;
+
+  // Estimate every catalog college the student hasn't listed and pick the strongest fits for each gap
+  const listedIds = new Set(chances.map(chance => chance.collegeId).filter(Boolean));
+  const candidates = neededCategories.length > 0
+    ? catalog
+        .filter(college => !listedIds.has(college.id))
+        .map(college => ({ college, ...evaluate({ id: college.id, name: college.name }) }))
+    : [];
+
+  const suggestions: CollegeSuggestion[] = [];
+  for (const category of neededCategories) {
+    candidates
+      .filter(candidate => candidate.category === category)
+      // Reaches with the best odds first; otherwise the most selective college that still fills the gap
+      .sort((a, b) => category === "reach"
+        ? b.probability - a.probability
+        : a.college.acceptanceRate - b.college.acceptanceRate || b.probability - a.probability)
+      .slice(0, rules.suggestionsPerCategory)
+      .forEach(candidate => suggestions.push({
+        collegeId: candidate.college.id,
+        name: candidate.college.name,
+        category,
+        probability: candidate.probability,
+      }));
+  }
+
+  return {
+    counts,
+    balanced: advice.length === 0,
+    summary,
+    advice,
+    suggestions,
+  };
+}
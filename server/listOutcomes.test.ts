@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { simulateListOutcome } from "./listOutcomes";
+
+describe("simulateListOutcome", () => {
+  it("returns undefined when no college has an estimate", () => {
+    expect(simulateListOutcome([])).toBeUndefined();
+    expect(simulateListOutcome([{}, {}])).toBeUndefined();
+  });
+
+  it("skips colleges without an estimate", () => {
+    expect(simulateListOutcome([{ probability: 0.5 }, {}])?.collegeCount).toBe(1);
+  });
+
+  it("matches a single college's probability", () => {
+    const outcome = simulateListOutcome([{ probability: 0.4 }])!;
+    expect(outcome.probabilityAtLeastOne).toBeCloseTo(0.4, 1);
+    expect(outcome.expectedAdmits).toBeCloseTo(0.4, 1);
+  });
+
+  it("expects as many admits as the probabilities add up to", () => {
+    const outcome = simulateListOutcome([{ probability: 0.1 }, { probability: 0.5 }, { probability: 0.9 }])!;
+    expect(outcome.expectedAdmits).toBeCloseTo(1.5, 1);
+  });
+
+  it("gives lower odds of at least one admit than independent decisions would", () => {
+    const probabilities = [0.2, 0.2, 0.2, 0.2, 0.2];
+    const outcome = simulateListOutcome(probabilities.map(probability => ({ probability })))!;
+    const independent = 1 - probabilities.reduce((product, p) => product * (1 - p), 1);
+    expect(outcome.probabilityAtLeastOne).toBeLessThan(independent);
+    expect(outcome.probabilityAtLeastOne).toBeGreaterThan(0.2);
+  });
+
+  it("is the same on every run", () => {
+    const colleges = [{ probability: 0.07 }, { probability: 0.35 }, { probability: 0.8 }];
+    expect(simulateListOutcome(colleges)).toEqual(simulateListOutcome(colleges));
+  });
+
+  it("counts reaches by category when given, and by the target cutoff otherwise", () => {
+    const byCutoff = simulateListOutcome([{ probability: 0.1 }, { probability: 0.6 }])!;
+    expect(byCutoff.reachCount).toBe(1);
+    const byCategory = simulateListOutcome([{ probability: 0.1, isReach: false }, { probability: 0.6, isReach: true }])!;
+    expect(byCategory.reachCount).toBe(1);
+    expect(byCategory.probabilityAtLeastOneReach).toBeCloseTo(0.6, 1);
+  });
+
+  it("reports no reach odds for a list without reaches", () => {
+    expect(simulateListOutcome([{ probability: 0.8 }, { probability: 0.95 }])?.probabilityAtLeastOneReach).toBeNull();
+  });
+});
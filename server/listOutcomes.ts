@@ -0,0 +1,114 @@
+import { type ListOutcome } from "@shared/schema";
+import { getScoringRules } from "./scoringRules";
+
+// Admission decisions across a list are correlated: every reader sees the same essays, recommendations
+// and grades, so a student who is strong in one committee's eyes tends to be strong in the others'.
+// This is modelled with a one-factor Gaussian copula: each college's latent draw shares the rules'
+// decisionCorrelation of its variance with a common "how the application reads" factor. The rules'
+// simulationTrials should be enough that the reported percentages are stable to about half a point.
+
+// Fixed seed so the same profile always produces the same summary
+const SIMULATION_SEED = 20240901;
+
+// Small, fast seeded PRNG (mulberry32)
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draws via Box-Muller
+function createNormal(random: () => number): () => number {
+  return () => {
+    const u = Math.max(random(), Number.MIN_VALUE);
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+}
+
+// Inverse standard normal CDF (Acklam's rational approximation, relative error < 1.2e-9)
+function inverseNormalCdf(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.3577518672690, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+           ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+            ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+         (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Simulate admission outcomes across the whole list from the per-college probabilities.
+ * Returns undefined when no college has a model probability.
+ */
+export function simulateListOutcome(
+  colleges: { probability?: number, isReach?: boolean }[]
+): ListOutcome | undefined {
+  const modelled = colleges.filter((college): college is { probability: number, isReach?: boolean } =>
+    college.probability !== undefined
+  );
+  if (modelled.length === 0) return undefined;
+
+  const { decisionCorrelation, simulationTrials } = getScoringRules().listOutcomes;
+  // Without a category, a college counts as a reach when the estimate is below the target cutoff
+  const reachProbability = getScoringRules().listBalance.targetProbability;
+
+  // A college is admitted in a trial when its latent draw falls below this threshold
+  const thresholds = modelled.map(college => inverseNormalCdf(college.probability));
+  const reaches = modelled.map(college => college.isReach ?? college.probability < reachProbability);
+  const reachCount = reaches.filter(Boolean).length;
+
+  const normal = createNormal(createRandom(SIMULATION_SEED));
+  const shared = Math.sqrt(decisionCorrelation);
+  const independent = Math.sqrt(1 - decisionCorrelation);
+
+  let trialsWithAdmit = 0;
+  let trialsWithReachAdmit = 0;
+  let totalAdmits = 0;
+
+  for (let trial = 0; trial < simulationTrials; trial++) {
+    const common = normal();
+    let admits = 0;
+    let reachAdmit = false;
+    for (let i = 0; i < modelled.length; i++) {
+      const latent = shared * common + independent * normal();
+      if (latent < thresholds[i]) {
+        admits++;
+        if (reaches[i]) reachAdmit = true;
+      }
+    }
+    totalAdmits += admits;
+    if (admits > 0) trialsWithAdmit++;
+    if (reachAdmit) trialsWithReachAdmit++;
+  }
+
+  return {
+    probabilityAtLeastOne: trialsWithAdmit / simulationTrials,
+    expectedAdmits: totalAdmits / simulationTrials,
+    probabilityAtLeastOneReach: reachCount > 0 ? trialsWithReachAdmit / simulationTrials : null,
+    collegeCount: modelled.length,
+    reachCount,
+    correlation: decisionCorrelation,
+    trials: simulationTrials,
+  };
+}
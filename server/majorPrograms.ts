@@ -0,0 +1,61 @@
+import { type CollegeCatalogEntry, type MajorProgram } from "@shared/schema";
+import { formatRate, logit } from "./chanceModel";
+import { getScoringRules } from "./scoringRules";
+
+/**
+ * The program a major is admitted to at a college, if the college admits that major separately
+ */
+export function findProgram(college: CollegeCatalogEntry | undefined, major: string | undefined): MajorProgram | undefined {
+  if (!college || !major) return undefined;
+  const majorName = major.toLowerCase();
+  return college.programs.find(program => program.keywords.some(keyword => majorName.includes(keyword)));
+}
+
+export interface ProgramAdjustment {
+  program?: MajorProgram;
+  // Log-odds adjustment to the admission model
+  adjustment: number;
+}
+
+/**
+ * Log-odds adjustment for applying to a program that is more selective than the college overall
+ */
+export function getProgramAdjustment(college: CollegeCatalogEntry | undefined, major: string | undefined): ProgramAdjustment {
+  const program = findProgram(college, major);
+  if (!college || !program) return { adjustment: 0 };
+  // Program admit rates reflect their own applicant pools, which are stronger than the college's overall pool
+  // (CS applicants to a direct-admit CS program are a self-selected group). As with early rounds, we credit
+  // only the rules' passThrough.program share of the log-odds gap between the program's rate and the
+  // college's rate to the program itself.
+  return {
+    program,
+    adjustment: getScoringRules().chanceModel.passThrough.program * (logit(program.acceptanceRate) - logit(college.acceptanceRate)),
+  };
+}
+
+/**
+ * Explain how the program changes the odds, and how the alternate major compares where it differs
+ */
+export function describeProgramEffect(
+  collegeName: string,
+  college: CollegeCatalogEntry,
+  major: string,
+  effect: ProgramAdjustment,
+  probability: number,
+  alternate?: { major: string, program?: string, probability: number }
+): string | null {
+  const notes: string[] = [];
+
+  if (effect.program) {
+    const { program } = effect;
+    notes.push(program.admission === "direct-admit"
+      ? `${program.name} at ${collegeName} is a direct-admit program that admitted about ${formatRate(program.acceptanceRate)} of applicants versus ${formatRate(college.acceptanceRate)} for the university overall.`
+      : `${program.name} at ${collegeName} is a capped major that admitted about ${formatRate(program.acceptanceRate)} of applicants, and transferring into it after enrolling is difficult.`);
+  }
+
+  if (alternate && alternate.program !== effect.program?.name) {
+    notes.push(`With your alternate major, ${alternate.major}, your estimate here is about ${formatRate(alternate.probability)} versus ${formatRate(probability)} for ${major}.`);
+  }
+
+  return notes.length > 0 ? notes.join(" ") : null;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import {
+  findMajorFamilies, getMajorAreas, isMajorRelatedActivity, isMajorRelatedAward
+} from "./majorTaxonomy";
+
+describe("findMajorFamilies", () => {
+  it("finds every family of a double major", () => {
+    const ids = findMajorFamilies("Computer Science and Economics").map(family => family.id);
+    expect(ids).toContain("computer-science");
+    expect(ids).toContain("economics");
+  });
+
+  it("finds nothing for an unknown major", () => {
+    expect(findMajorFamilies("Underwater Basket Weaving")).toEqual([]);
+    expect(getMajorAreas("Underwater Basket Weaving")).toEqual([]);
+  });
+});
+
+describe("computer science applicants", () => {
+  it("count a robotics club as a related activity", () => {
+    expect(isMajorRelatedActivity("Computer Science", { activity: "Robotics Club" })).toBe(true);
+    expect(isMajorRelatedActivity("Computer Science", { activity: "FIRST Robotics Team", description: "Lead programmer" })).toBe(true);
+  });
+
+  it("count math competitions as related awards", () => {
+    expect(isMajorRelatedAward("Computer Science", { title: "USAMO qualifier" })).toBe(true);
+    expect(isMajorRelatedAward("Computer Science", { title: "AIME qualifier" })).toBe(true);
+    expect(isMajorRelatedAward("Computer Science", { title: "USACO Gold" })).toBe(true);
+  });
+
+  it("don't count unrelated activities and awards", () => {
+    expect(isMajorRelatedActivity("Computer Science", { activity: "Varsity Soccer" })).toBe(false);
+    expect(isMajorRelatedAward("Computer Science", { title: "All-State Orchestra" })).toBe(false);
+  });
+});
+
+describe("a major named outright", () => {
+  it("relates an activity that names it even without a family", () => {
+    expect(isMajorRelatedActivity("Origami", { activity: "Origami club" })).toBe(true);
+  });
+});
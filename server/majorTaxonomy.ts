@@ -0,0 +1,107 @@
+import fs from "fs";
+import path from "path";
+import {
+  majorTaxonomySchema,
+  type MajorArea, type MajorFamily, type MajorTaxonomy
+} from "@shared/schema";
+import { containsPhrase, tokenize } from "./textMatching";
+
+// Plain JSON like the catalog, so counselors can add majors and activities without a code change
+const DEFAULT_TAXONOMY_PATH = path.resolve(process.cwd(), "server", "data", "majorTaxonomy.json");
+
+// A family with its names and keywords tokenized and stemmed once at load time
+interface IndexedFamily {
+  family: MajorFamily;
+  majors: string[][];
+  activityPhrases: string[][];
+  awardPhrases: string[][];
+}
+
+let taxonomy: MajorTaxonomy | null = null;
+let families: IndexedFamily[] = [];
+
+/**
+ * Load and validate the major taxonomy from disk, replacing any previously loaded copy
+ */
+export function loadMajorTaxonomy(filePath: string = process.env.MAJOR_TAXONOMY_PATH || DEFAULT_TAXONOMY_PATH): MajorTaxonomy {
+  const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  const parsed = majorTaxonomySchema.parse(raw);
+
+  const ids = new Set<string>();
+  for (const family of parsed.families) {
+    if (ids.has(family.id)) {
+      throw new Error(`Duplicate major family id "${family.id}" in taxonomy ${filePath}`);
+    }
+    ids.add(family.id);
+  }
+
+  taxonomy = parsed;
+  families = parsed.families.map(family => ({
+    family,
+    majors: family.majors.map(tokenize),
+    activityPhrases: [...family.keywords, ...family.activities].map(tokenize),
+    awardPhrases: [...family.keywords, ...family.awards].map(tokenize),
+  }));
+  return parsed;
+}
+
+export function getMajorTaxonomy(): MajorTaxonomy {
+  return taxonomy ?? loadMajorTaxonomy();
+}
+
+function findIndexedFamilies(major: string): IndexedFamily[] {
+  getMajorTaxonomy();
+  const tokens = tokenize(major);
+  return families.filter(indexed => indexed.majors.some(name => containsPhrase(tokens, name)));
+}
+
+/**
+ * The families an intended major belongs to; a double major ("Computer Science and Economics") has several
+ */
+export function findMajorFamilies(major: string): MajorFamily[] {
+  return findIndexedFamilies(major).map(indexed => indexed.family);
+}
+
+/**
+ * Areas used for institutional fit, from every family the major belongs to
+ */
+export function getMajorAreas(major: string): MajorArea[] {
+  return Array.from(new Set(findMajorFamilies(major).map(family => family.area)));
+}
+
+/**
+ * Whether an activity relates to the major: it names the major, or mentions a keyword or typical
+ * activity of the major's families
+ */
+export function isMajorRelatedActivity(major: string, activity: { activity?: string, description?: string }): boolean {
+  const tokens = tokenize(`${activity.activity || ""} ${activity.description || ""}`);
+  return containsPhrase(tokens, tokenize(major)) ||
+    findIndexedFamilies(major).some(indexed => indexed.activityPhrases.some(phrase => containsPhrase(tokens, phrase)));
+}
+
+/**
+ * Whether an award relates to the major: it names the major, or mentions a keyword or known
+ * competition of the major's families
+ */
+export function isMajorRelatedAward(major: string, award: { title: string }): boolean {
+  const tokens = tokenize(award.title);
+  return containsPhrase(tokens, tokenize(major)) ||
+    findIndexedFamilies(major).some(indexed => indexed.awardPhrases.some(phrase => containsPhrase(tokens, phrase)));
+}
+
+/**
+ * The family whose advice applies to the major: the first one it belongs to, as for suggestions
+ */
+export function findPrimaryMajorFamily(major: string): MajorFamily | undefined {
+  return findMajorFamilies(major)[0];
+}
+
+/**
+ * Activities to suggest for the major, completing "Consider ..."
+ */
+export function getMajorRelatedActivitySuggestions(major: string): string {
+  const family = findPrimaryMajorFamily(major);
+  return family
+    ? family.suggestions
+    : "clubs, competitions, or community service opportunities that connect to your specific interests in this field.";
+}
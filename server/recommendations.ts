@@ -0,0 +1,137 @@
+import {
+  type CollegeCatalogEntry, type CollegeCategory, type CollegePreferences, type CollegeRecommendation, type Home, type MajorArea
+} from "@shared/schema";
+import { formatProbability } from "@shared/format";
+import { getMajorAreas } from "./majorTaxonomy";
+import { findReciprocityProgram, getResidencyStatus, type ResidencyStatus } from "./residency";
+import { getScoringRules, includesAny } from "./scoringRules";
+
+// A major spanning several areas (a double major) is matched on the first of these it belongs to
+const AREA_PRIORITY: MajorArea[] = ["business", "stem", "humanities"];
+
+function getMajorArea(major: string): MajorArea {
+  const areas = getMajorAreas(major);
+  return AREA_PRIORITY.find(area => areas.includes(area)) || "other";
+}
+
+function majorFit(college: CollegeCatalogEntry, area: MajorArea): { score: number, reason?: string } {
+  const rules = getScoringRules();
+  const scores = rules.recommendations.majorFit;
+  const businessSchools = rules.fit.business.schoolKeywords;
+  const hasBusinessSchool = college.aliases.some(alias => includesAny(alias.toLowerCase(), businessSchools));
+  if (area === "business" && hasBusinessSchool) {
+    return { score: 1, reason: "Home to a nationally known undergraduate business school" };
+  }
+  if (college.focus === "stem") {
+    return area === "stem"
+      ? { score: 1, reason: "STEM-focused institution that matches your intended major" }
+      : { score: scores.stemSchool };
+  }
+  if (college.focus === "liberal-arts") {
+    if (area === "humanities") return { score: 1, reason: "Liberal arts college with strong humanities teaching" };
+    return { score: area === "stem" ? scores.liberalArtsStem : scores.liberalArtsOther };
+  }
+  return { score: scores.general };
+}
+
+function residencyFit(
+  college: CollegeCatalogEntry,
+  home: Home | undefined,
+  legacyResidency: ResidencyStatus | undefined
+): { score: number, reason?: string } {
+  const scores = getScoringRules().recommendations.residencyFit;
+  const status = getResidencyStatus(home, legacyResidency, college);
+  if (status === "international") {
+    return { score: college.control === "public" ? scores.internationalPublic : scores.internationalPrivate };
+  }
+  if (status === "in-state" && college.control === "public") {
+    return { score: 1, reason: "In-state public university, with in-state tuition" };
+  }
+  const reciprocity = findReciprocityProgram(college, home);
+  if (reciprocity) return { score: scores.reciprocity, reason: `Reduced tuition through the ${reciprocity}` };
+  return { score: scores.outOfState };
+}
+
+function preferencesFit(
+  college: CollegeCatalogEntry,
+  preferences: CollegePreferences | undefined
+): { score: number, reasons: string[] } {
+  const matches: number[] = [];
+  const reasons: string[] = [];
+
+  if (preferences?.control && preferences.control !== "any") {
+    const match = college.control === preferences.control;
+    matches.push(match ? 1 : 0);
+    if (match) reasons.push(`${college.control === "public" ? "Public" : "Private"}, as you prefer`);
+  }
+  if (preferences?.focus && preferences.focus !== "any") {
+    matches.push(college.focus === preferences.focus ? 1 : 0);
+  }
+  if (preferences?.states && preferences.states.length > 0) {
+    const match = preferences.states.includes(college.state);
+    matches.push(match ? 1 : 0);
+    if (match) reasons.push(`In ${college.state}, one of your preferred states`);
+  }
+
+  // No stated preferences: every college is an equally good fit on this dimension
+  if (matches.length === 0) return { score: getScoringRules().recommendations.noPreferences, reasons };
+  return { score: matches.reduce((sum, match) => sum + match, 0) / matches.length, reasons };
+}
+
+function describeChance(category: CollegeCategory, probability: number): string {
+  // Bounds like "<0.1%" already say how rough they are
+  const percent = formatProbability(probability);
+  const estimate = /^[<>]/.test(percent) ? percent : `about ${percent}`;
+  switch (category) {
+    case "reach": return `A reach worth considering (${estimate} chance)`;
+    case "target": return `A realistic target (${estimate} chance)`;
+    case "likely": return `Likely admit (${estimate} chance)`;
+    default: return `Safety (${estimate} chance)`;
+  }
+}
+
+/**
+ * Rank catalog colleges by fit for this student, combining the estimated chance,
+ * intended major, residency and stated preferences
+ */
+export function rankRecommendations(
+  candidates: { college: CollegeCatalogEntry, probability: number, category: CollegeCategory }[],
+  student: { major: string, home?: Home, residency?: ResidencyStatus, preferences?: CollegePreferences },
+  limit: number
+): CollegeRecommendation[] {
+  const area = getMajorArea(student.major);
+  const { weights, idealProbability } = getScoringRules().recommendations;
+
+  return candidates
+    .map(({ college, probability, category }) => {
+      const chanceScore = Math.max(0, 1 - Math.abs(probability - idealProbability) / idealProbability);
+      const major = majorFit(college, area);
+      const preferences = preferencesFit(college, student.preferences);
+      const residency = residencyFit(college, student.home, student.residency);
+
+      const fitScore =
+        weights.chance * chanceScore +
+        weights.major * major.score +
+        weights.residency * residency.score +
+        weights.preferences * preferences.score;
+
+      return {
+        collegeId: college.id,
+        name: college.name,
+        state: college.state,
+        control: college.control,
+        acceptanceRate: college.acceptanceRate,
+        category,
+        probability,
+        fitScore: Math.round(fitScore * 100) / 100,
+        reasons: [
+          describeChance(category, probability),
+          ...(major.reason ? [major.reason] : []),
+          ...(residency.reason ? [residency.reason] : []),
+          ...preferences.reasons,
+        ],
+      };
+    })
+    .sort((a, b) => b.fitScore - a.fitScore || a.acceptanceRate - b.acceptanceRate)
+    .slice(0, limit);
+}
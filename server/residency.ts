@@ -0,0 +1,115 @@
+import { US_STATES, type CollegeCatalogEntry, type Home } from "@shared/schema";
+import { formatRate, logit } from "./chanceModel";
+import { getScoringRules } from "./scoringRules";
+
+export type ResidencyStatus = "in-state" | "out-of-state" | "international";
+
+// Member states of the tuition reciprocity programs. Both cap tuition for residents of member states
+// at participating colleges at 150% of in-state tuition; neither changes admission odds.
+const RECIPROCITY_PROGRAMS: Record<"WUE" | "MSEP", { name: string, states: string[] }> = {
+  WUE: {
+    name: "Western Undergraduate Exchange (WUE)",
+    states: ["AK", "AZ", "CA", "CO", "HI", "ID", "MT", "NV", "NM", "ND", "OR", "SD", "UT", "WA", "WY"],
+  },
+  MSEP: {
+    name: "Midwest Student Exchange Program (MSEP)",
+    states: ["IN", "KS", "MO", "NE", "ND", "OH", "WI"],
+  },
+};
+
+/**
+ * The student's residency for one college. In-state status only exists at public colleges in the student's
+ * home state; the legacy flag is used as-is for assessments saved before home was collected.
+ */
+export function getResidencyStatus(
+  home: Home | undefined,
+  legacyResidency: ResidencyStatus | undefined,
+  college: CollegeCatalogEntry | undefined
+): ResidencyStatus {
+  if (!home) return legacyResidency || "out-of-state";
+  if (home.country !== "US") return "international";
+  return college && home.state === college.state ? "in-state" : "out-of-state";
+}
+
+/**
+ * The reciprocity program that lowers the student's tuition at a college, if any
+ */
+export function findReciprocityProgram(college: CollegeCatalogEntry, home: Home | undefined): string | undefined {
+  const state = home?.country === "US" ? home.state : undefined;
+  if (!state || state === college.state) return undefined;
+  const program = college.reciprocity.find(program => RECIPROCITY_PROGRAMS[program].states.includes(state));
+  return program ? RECIPROCITY_PROGRAMS[program].name : undefined;
+}
+
+export interface ResidencyAdjustment {
+  status: ResidencyStatus;
+  // Log-odds adjustment to the admission model
+  adjustment: number;
+  notes: string[];
+}
+
+/**
+ * Log-odds adjustment for the student's residency at one college, from the catalog's residency admit rates
+ * where published and otherwise from the college's control type and nonresident cap
+ */
+export function getResidencyAdjustment(
+  college: CollegeCatalogEntry | undefined,
+  status: ResidencyStatus,
+  home?: Home
+): ResidencyAdjustment {
+  // Nothing reliable is known about colleges outside the catalog, including whether they're public
+  if (!college) return { status, adjustment: 0, notes: [] };
+
+  const { coefficients, passThrough, selectivePublicRate } = getScoringRules().chanceModel;
+  const rates = college.residencyAcceptanceRates;
+  // International applicants to public universities compete for the same nonresident seats as out-of-state applicants
+  const groupRate = status === "in-state" ? rates.inState :
+                    status === "out-of-state" ? rates.outOfState :
+                    rates.international ?? (college.control === "public" ? rates.outOfState : undefined);
+  const notes: string[] = [];
+  let adjustment = 0;
+
+  // Out-of-state pools at flagship publics are stronger than in-state pools, so part of the gap between
+  // published residency admit rates is pool strength. We credit only the rules' passThrough.residency share of
+  // the log-odds gap to residency.
+  if (college.control === "public" && status === "in-state") {
+    adjustment = groupRate !== undefined
+      ? passThrough.residency * (logit(groupRate) - logit(college.acceptanceRate))
+      : coefficients.inStatePublic;
+    const stateName = home?.state ? US_STATES[home.state] : undefined;
+    notes.push(`${stateName ? `As a resident of ${stateName}, you` : "You"} apply to ${college.name} as an in-state student${
+      groupRate !== undefined && rates.outOfState !== undefined
+        ? `: in-state applicants were admitted at about ${formatRate(groupRate)} versus ${formatRate(rates.outOfState)} from out of state.`
+        : ", which improves your odds at a public university."}`);
+  } else if (college.control === "public" || status === "international") {
+    // Out-of-state applicants at public universities, and international applicants everywhere
+    const nonresident = college.control === "public";
+    if (groupRate !== undefined) {
+      adjustment = passThrough.residency * (logit(groupRate) - logit(college.acceptanceRate));
+      notes.push(`${college.name} admitted about ${formatRate(groupRate)} of ${status === "international" && rates.international !== undefined ? "international" : "out-of-state"} applicants.`);
+    } else if (nonresident && college.nonresidentCap !== undefined) {
+      adjustment = coefficients.cappedNonresidentPublic;
+    } else if (nonresident && college.acceptanceRate < selectivePublicRate) {
+      // Selective publics without published residency rates, where out-of-state applicants compete for fewer seats
+      adjustment = coefficients.outOfStateSelectivePublic;
+    }
+
+    if (status === "international" && rates.international === undefined) {
+      // International applicants compete for few seats and little financial aid at most US colleges
+      adjustment += coefficients.international;
+      notes.push(`International applicants compete for a limited number of seats at ${college.name}, and financial aid for them is ${college.control === "public" ? "rarely available" : "often need-aware"}.`);
+    }
+
+    if (nonresident && college.nonresidentCap !== undefined) {
+      notes.push(`${college.name} limits students from outside ${US_STATES[college.state] || college.state} to about ${Math.round(college.nonresidentCap * 100)}% of the entering class, so nonresident applicants compete for far fewer seats.`);
+    }
+  }
+
+  // Reciprocity lowers tuition for residents of member states without changing admission
+  const reciprocity = findReciprocityProgram(college, home);
+  if (reciprocity && home?.state) {
+    notes.push(`As a resident of ${US_STATES[home.state]}, you may qualify for reduced tuition at ${college.name} through the ${reciprocity}, capped at 150% of in-state tuition; apply for it by the college's deadline.`);
+  }
+
+  return { status, adjustment, notes };
+}
@@ -2,11 +2,40 @@ import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { 
-  admissionDataSchema, analysisResultSchema, 
-  type User 
+  admissionDataSchema, analysisResultSchema, whatIfRequestSchema, activityTiersRequestSchema, awardRecognitionRequestSchema, transcriptSummaryRequestSchema, 
+  APPLICATION_ROUND_LABELS, COURSE_LEVEL_LABELS, GPA_SCALE_LABELS, SCHOOL_TYPE_LABELS, US_STATES, type ApplicationRound, type User, type CollegeCatalogEntry, 
+  type ActivityTier, type AwardRecognition, type TranscriptSummary, type GradeTrend, type SchoolContextSummary, type ChanceFactorContribution, type CollegeCategory, type TestingAdvice, type TestPolicy, type TestScoreComparison 
 } from "@shared/schema";
+import { formatProbability, formatProbabilityRange } from "@shared/format";
 import { z } from "zod";
 import fetch from "node-fetch";
+import { getCollegeCatalog, getCollegeTier, resolveCollege, searchColleges } from "./catalog";
+import { 
+  adviseTestSubmission, compareTestScores, concordSatToAct, describeSuperscoring, describeTestScoreComparison, 
+  getConsideredScores, getTestScoreAdjustment, parseTestHistory, pickStrongerTest 
+} from "./testScores";
+import { describeGpa, normalizeGpa } from "./gpa";
+import { 
+  estimateAdmissionChance, formatRate 
+} from "./chanceModel";
+import { simulateListOutcome } from "./listOutcomes";
+import { analyzeListBalance, classifyCollege } from "./listBalance";
+import { rankRecommendations } from "./recommendations";
+import { describeRoundEffect, getRoundAdjustment, resolveRound, validateApplicationPlan } from "./applicationRounds";
+import { getHookAdjustment, withoutApplicantContext, type HookAdjustment } from "./applicantContext";
+import { describeProgramEffect, getProgramAdjustment } from "./majorPrograms";
+import { getResidencyAdjustment, getResidencyStatus, type ResidencyAdjustment } from "./residency";
+import { applyWhatIfChanges, compareScenarios } from "./whatIf";
+import { getScoringRules, includesAny, lookupGrade, lookupPoints } from "./scoringRules";
+import { assessLeadership, type RoleClassification } from "./leadership";
+import { assessActivityTiers } from "./activityTiers";
+import { recognizeAward, scoreAwardPrestige } from "./awardKnowledgeBase";
+import { summarizeTranscript } from "./transcript";
+import { analyzeGradeTrend, scoreGradeTrend } from "./gradeTrend";
+import { assessSchoolContext, scoreClassRank } from "./schoolContext";
+import { 
+  findPrimaryMajorFamily, getMajorAreas, getMajorRelatedActivitySuggestions, isMajorRelatedActivity, isMajorRelatedAward 
+} from "./majorTaxonomy";
 import { createClient } from '@supabase/supabase-js';
 
 // Create a Supabase client for server-side operations
@@ -142,6 +171,199 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     }
   });
+  // College search for the autocomplete on the colleges step
+  app.get("/api/colleges/search", (req, res) => {
+    const query = typeof req.query.q === "string" ? req.query.q : "";
+    const limit = Math.min(parseInt(req.query.limit as string) || 8, 20);
+    
+    const results = searchColleges(query, limit).map(({ college, matchedName }) => ({
+      id: college.id,
+      name: college.name,
+      matchedName: matchedName !== college.name ? matchedName : undefined,
+      state: college.state,
+      control: college.control,
+      acceptanceRate: college.acceptanceRate
+    }));
+    
+    res.json({
+      success: true,
+      results
+    });
+  });
+  
+  // API for recommending catalog colleges that aren't on the student's list yet
+  app.post("/api/recommendations", async (req, res) => {
+    try {
+      const formData = admissionDataSchema.parse(req.body);
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || "")) || 6, 1), 20);
+      
+      const listedIds = new Set(formData.colleges.map(college => resolveCollege(college)?.id).filter(Boolean));
+      const candidates = getCollegeCatalog().colleges.filter(college => !listedIds.has(college.id));
+      
+      // Estimate every candidate with the same model used for the student's own list
+      const { evaluateCollege } = assessProfile(formData);
+      
+      const recommendations = rankRecommendations(
+        candidates.map(college => {
+          const { probability, category } = evaluateCollege({ id: college.id, name: college.name });
+          return { college, probability, category };
+        }),
+        formData,
+        limit
+      );
+      
+      res.json({
+        success: true,
+        recommendations
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const fieldErrors = error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }));
+        
+        res.status(400).json({ 
+          success: false, 
+          message: "Validation error", 
+          errors: fieldErrors 
+        });
+      } else {
+        console.error("Recommendation error:", error);
+        res.status(500).json({ 
+          success: false, 
+          message: "An unexpected error occurred" 
+        });
+      }
+    }
+  });
+  
+  // API for the impact tier of each activity, shown on the review step before the full analysis
+  app.post("/api/activity-tiers", async (req, res) => {
+    try {
+      const { extracurriculars } = activityTiersRequestSchema.parse(req.body);
+      
+      res.json({
+        success: true,
+        tiers: assessActivityTiers(extracurriculars).tiers
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const fieldErrors = error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }));
+        
+        res.status(400).json({ 
+          success: false, 
+          message: "Validation error", 
+          errors: fieldErrors 
+        });
+      } else {
+        console.error("Activity tier error:", error);
+        res.status(500).json({ 
+          success: false, 
+          message: "An unexpected error occurred" 
+        });
+      }
+    }
+  });
+  
+  // API for checking award titles against the knowledge base, so the form can suggest a level
+  app.post("/api/award-recognition", async (req, res) => {
+    try {
+      const { honorsAwards } = awardRecognitionRequestSchema.parse(req.body);
+      
+      res.json({
+        success: true,
+        awards: honorsAwards.map(recognizeAward)
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const fieldErrors = error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }));
+        
+        res.status(400).json({ 
+          success: false, 
+          message: "Validation error", 
+          errors: fieldErrors 
+        });
+      } else {
+        console.error("Award recognition error:", error);
+        res.status(500).json({ 
+          success: false, 
+          message: "An unexpected error occurred" 
+        });
+      }
+    }
+  });
+  
+  // API for the GPA, AP count and rigor computed from a transcript, previewed while the courses are entered
+  app.post("/api/transcript-summary", async (req, res) => {
+    try {
+      const { transcript } = transcriptSummaryRequestSchema.parse(req.body);
+      
+      res.json({
+        success: true,
+        summary: summarizeTranscript(transcript)
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const fieldErrors = error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }));
+        
+        res.status(400).json({ 
+          success: false, 
+          message: "Validation error", 
+          errors: fieldErrors 
+        });
+      } else {
+        console.error("Transcript summary error:", error);
+        res.status(500).json({ 
+          success: false, 
+          message: "An unexpected error occurred" 
+        });
+      }
+    }
+  });
+  
+  // API for what-if scenarios: the same analysis with hypothetical changes, compared college by college
+  app.post("/api/what-if", async (req, res) => {
+    try {
+      const { base, changes } = whatIfRequestSchema.parse(req.body);
+      // Re-validate the scenario so, for example, a GPA outside the student's scale is rejected
+      const scenario = admissionDataSchema.parse(applyWhatIfChanges(base, changes));
+      
+      res.json({
+        success: true,
+        result: compareScenarios(createFallbackResponse(base), createFallbackResponse(scenario))
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const fieldErrors = error.errors.map(err => ({
+          path: err.path.join('.'),
+          message: err.message
+        }));
+        
+        res.status(400).json({ 
+          success: false, 
+          message: "Validation error", 
+          errors: fieldErrors 
+        });
+      } else {
+        console.error("What-if error:", error);
+        res.status(500).json({ 
+          success: false, 
+          message: "An unexpected error occurred" 
+        });
+      }
+    }
+  });
+  
   // API for analyzing college admission chances
   app.post("/api/analyze-admission", async (req, res) => {
     try {
@@ -165,8 +387,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // Save the request to storage
-      const requestId = await storage.saveAnalysisRequest(formData, userId);
+      // Save the request to storage, without the sensitive applicant context
+      const requestId = await storage.saveAnalysisRequest(withoutApplicantContext(formData), userId);
       
       // Process the data with DeepSeek API
       try {
@@ -340,16 +562,29 @@ function createPromptFromFormData(formData: any) {
 Please analyze this student's profile for college admissions and provide feedback in JSON format:
 
 ACADEMIC INFORMATION:
-- Unweighted GPA: ${formData.academics.gpa}
+- GPA: ${formData.academics.gpa} (${GPA_SCALE_LABELS[formData.academics.gpaScale as keyof typeof GPA_SCALE_LABELS] || GPA_SCALE_LABELS["4.0"]} scale)
 - Weighted GPA: ${formData.academics.weightedGpa || "Not provided"}
 - SAT Score: ${formData.academics.sat || "Not provided"}
 - ACT Score: ${formData.academics.act || "Not provided"}
+- SAT Sittings: ${(formData.academics.satSittings || []).map((sitting: any) => 
+  `${sitting.date || "Undated"}: ${sitting.readingWriting} R&W / ${sitting.math} Math`).join("; ") || "Not provided"}
+- ACT Sittings: ${(formData.academics.actSittings || []).map((sitting: any) => 
+  `${sitting.date || "Undated"}: ${sitting.english} E / ${sitting.math} M / ${sitting.reading} R / ${sitting.science} S`).join("; ") || "Not provided"}
 - AP/IB Courses: ${formData.academics.apCourses || "Not provided"}
 - Course Rigor: ${formData.academics.courseRigor}
+- GPA by Term: ${(formData.academics.termGpas || []).map((term: any) =>
+  `${term.term === "year" ? "" : `${term.term} `}grade ${term.gradeYear}: ${term.gpa}`).join("; ") || "Not provided"}
+- School: ${formData.school ? [
+  formData.school.type ? SCHOOL_TYPE_LABELS[formData.school.type as keyof typeof SCHOOL_TYPE_LABELS] : null,
+  formData.school.advancedCoursesOffered ? `${formData.school.advancedCoursesOffered} AP/IB courses offered` : null,
+  formData.school.ranks === false ? "does not rank" : formData.school.classRank && formData.school.classSize ? `rank ${formData.school.classRank} of ${formData.school.classSize}` : formData.school.rankDecile ? `decile ${formData.school.rankDecile}` : null
+].filter(Boolean).join(", ") || "Not provided" : "Not provided"}
+- Transcript: ${(formData.academics.transcript || []).map((course: any) =>
+  `${course.name} (grade ${course.gradeYear}, ${COURSE_LEVEL_LABELS[course.level as keyof typeof COURSE_LEVEL_LABELS] || course.level}): ${course.grade}`).join("; ") || "Not provided"}
 
 EXTRACURRICULAR ACTIVITIES:
 ${formData.extracurriculars.map((ec: any, index: number) => 
-  `${index + 1}. ${ec.activity} - ${ec.role || "Role not specified"} (${ec.yearsInvolved || "?"} years, ${ec.hoursPerWeek || "?"} hrs/week)
+  `${index + 1}. ${ec.activity} - ${ec.role || "Role not specified"} (${ec.yearsInvolved || "?"} years, ${ec.hoursPerWeek || "?"} hrs/week, ${ec.weeksPerYear || "?"} weeks/year)
      ${ec.description || "No description provided"}`
 ).join('\n')}
 
@@ -359,10 +594,13 @@ ${formData.honorsAwards.map((award: any, index: number) =>
 ).join('\n')}
 
 COLLEGES OF INTEREST:
-${formData.colleges.join(", ")}
+${formData.colleges.map((college: any) => `${college.name} (${APPLICATION_ROUND_LABELS[college.round as ApplicationRound] || APPLICATION_ROUND_LABELS.RD})`).join(", ")}
 
 INTENDED MAJOR:
-${formData.major}
+${formData.major}${formData.alternateMajor ? ` (alternate: ${formData.alternateMajor})` : ""}
+
+HOME:
+${formData.home ? (formData.home.country === "US" ? `${US_STATES[formData.home.state] || formData.home.state}, United States` : formData.home.country) : "Not provided"}
 
 Please provide your analysis in the following JSON format:
 {
@@ -383,67 +621,94 @@ Please provide your analysis in the following JSON format:
 `;
 }
 
-function createFallbackResponse(formData: any) {
-  // Create a detailed and realistic analysis with categories and specific plans
+// Grade the student's profile and build the per-college estimate from it. The recommendations endpoint
+// needs only the estimate, so the list-level analysis stays in createFallbackResponse.
+function assessProfile(formData: any) {
+  const rules = getScoringRules();
   
   // ---- Extract student information ----
-  const gpa = parseFloat(formData.academics.gpa) || 3.0;
-  const weightedGpa = parseFloat(formData.academics.weightedGpa) || 0;
-  const sat = parseInt(formData.academics.sat) || 0;
-  const act = parseInt(formData.academics.act) || 0;
-  const apCourses = parseInt(formData.academics.apCourses) || 0;
-  const courseRigor = formData.academics.courseRigor || "medium";
+  // In transcript mode the GPA, AP count and rigor are computed from the courses rather than self-reported
+  const transcriptSummary: TranscriptSummary | undefined = formData.academics.transcript?.length
+    ? summarizeTranscript(formData.academics.transcript)
+    : undefined;
+  
+  // A transcript with no letter grades leaves the self-reported GPA in place
+  const transcriptGpa = transcriptSummary?.unweightedGpa;
+  
+  // GPAs arrive on many scales; everything downstream works on the 4.0 unweighted equivalent
+  const gpaScale = transcriptGpa !== undefined ? "4.0" : formData.academics.gpaScale || "4.0";
+  const gpa = transcriptGpa ?? normalizeGpa(formData.academics.gpa, gpaScale) ?? 3.0;
+  const weightedGpa = transcriptSummary?.weightedGpa ?? (parseFloat(formData.academics.weightedGpa) || 0);
+  const apCourses = transcriptSummary?.apCourses ?? (parseInt(formData.academics.apCourses) || 0);
+  const courseRigor = transcriptSummary?.courseRigor ?? (formData.academics.courseRigor || "medium");
+  
+  // Trajectory across terms, from the term GPAs or the transcript's grade years
+  const gradeTrend = analyzeGradeTrend(formData.academics);
+  const firstTerm = gradeTrend?.terms[0];
+  const lastTerm = gradeTrend?.terms[gradeTrend.terms.length - 1];
+  
+  // Rigor is read against the AP/IB courses the school offers, and rank where the school reports it
+  const schoolContext = assessSchoolContext(formData.school, apCourses);
+  const schoolRules = rules.academic.schoolContext;
+  // Like the grade, a short list counts against the student only if it is also a small share of what was offered
+  const hasLimitedRigor = apCourses < rules.sections.academic.weak.apCourses &&
+    (schoolContext?.availableShare === undefined || schoolContext.availableShare < schoolRules.targetShare);
+  
+  // Test scores across all sittings; superscored here since most colleges superscore,
+  // and re-evaluated per college against its own policy below
+  const testHistory = parseTestHistory(formData.academics);
+  const { sat, act } = getConsideredScores(testHistory);
+  const strongerTest = pickStrongerTest(sat, act);
   
   // ---- Grade and evaluate each category ----
   // 1. Academic Assessment
-  const academicGrade = calculateAcademicGrade(gpa, weightedGpa, sat, act, apCourses, courseRigor);
+  const adjustmentPoints = scoreGradeTrend(gradeTrend) + scoreClassRank(schoolContext);
+  const academicGrade = calculateAcademicGrade(
+    gpa, weightedGpa, strongerTest?.satEquivalent || 0, apCourses, schoolContext?.availableShare, courseRigor, adjustmentPoints
+  );
+  // The same record where scores aren't considered (test-blind, or test-optional without submitting)
+  const academicGradeWithoutTests = calculateAcademicGrade(
+    gpa, weightedGpa, null, apCourses, schoolContext?.availableShare, courseRigor, adjustmentPoints
+  );
   
   // 2. Extracurricular Assessment
   const extracurriculars = formData.extracurriculars || [];
   const validExtracurriculars = extracurriculars.filter((ec: { activity: string }) => ec.activity.trim() !== "");
   const extracurricularCount = validExtracurriculars.length;
   
-  const hasLongTermCommitment = validExtracurriculars.some((ec: { yearsInvolved?: string | number }) => 
-    parseInt(ec.yearsInvolved as string || "0") >= 3
+  // Impact tiers: one nationally recognized project outweighs a long list of clubs. Each tier carries the
+  // years, hours and weeks read from the activity, with its total lifetime hours.
+  const activityTiers = assessActivityTiers(validExtracurriculars);
+  const distinguishedActivities = activityTiers.tiers.filter(activity => activity.tier <= 2);
+  
+  const hasLongTermCommitment = activityTiers.tiers.some(activity => 
+    activity.commitment.years >= rules.extracurricular.longTermYears
   );
   
-  const hasSignificantTimeCommitment = validExtracurriculars.some((ec: { hoursPerWeek?: string | number }) => 
-    parseInt(ec.hoursPerWeek as string || "0") >= 10
+  const hasSignificantTimeCommitment = activityTiers.tiers.some(activity => 
+    activity.commitment.hoursPerWeek >= rules.extracurricular.significantHoursPerWeek
   );
   
-  const hasLeadershipRoles = validExtracurriculars.some((ec: { role?: string }) => 
-    ec.role?.toLowerCase().includes("president") || 
-    ec.role?.toLowerCase().includes("leader") || 
-    ec.role?.toLowerCase().includes("captain") ||
-    ec.role?.toLowerCase().includes("founder") ||
-    ec.role?.toLowerCase().includes("director") ||
-    ec.role?.toLowerCase().includes("editor") ||
-    ec.role?.toLowerCase().includes("manager") ||
-    ec.role?.toLowerCase().includes("chair")
+  // Depth is measured on the activity with the most total hours
+  const deepestActivity = activityTiers.tiers.reduce<ActivityTier | undefined>(
+    (deepest, activity) => !deepest || activity.commitment.totalHours > deepest.commitment.totalHours ? activity : deepest,
+    undefined
   );
   
-  const hasMajorRelatedActivities = validExtracurriculars.some((ec: { activity?: string, description?: string }) => {
-    const activity = (ec.activity || "").toLowerCase();
-    const description = (ec.description || "").toLowerCase();
-    const major = formData.major.toLowerCase();
-    
-    // Check if the activity or description contains keywords related to the major
-    return (
-      activity.includes(major) || 
-      description.includes(major) ||
-      (major.includes("comput") && (activity.includes("tech") || activity.includes("coding") || activity.includes("programming") || activity.includes("software"))) ||
-      (major.includes("engineer") && (activity.includes("robot") || activity.includes("design") || activity.includes("build"))) ||
-      (major.includes("biolog") && (activity.includes("lab") || activity.includes("science") || activity.includes("research"))) ||
-      (major.includes("business") && (activity.includes("entrepreneur") || activity.includes("marketing") || activity.includes("finance"))) ||
-      (major.includes("art") && (activity.includes("design") || activity.includes("draw") || activity.includes("paint") || activity.includes("portfolio")))
-    );
-  });
+  // Graded leadership: founders and presidents count for more than officers and committee leads,
+  // and more again when the activity reaches beyond the school
+  const leadership = assessLeadership(validExtracurriculars);
+  const hasLeadershipRoles = leadership.top !== undefined;
+  
+  // Activities named after the major or typical of it, per the major taxonomy (hospital volunteering for nursing)
+  const hasMajorRelatedActivities = validExtracurriculars.some((ec: { activity?: string, description?: string }) => 
+    isMajorRelatedActivity(formData.major, ec)
+  );
   
   const extracurricularGrade = calculateExtracurricularGrade(
-    extracurricularCount, 
-    hasLeadershipRoles, 
-    hasLongTermCommitment,
-    hasSignificantTimeCommitment,
+    activityTiers.score, 
+    leadership.score, 
+    deepestActivity?.commitment.totalHours ?? 0,
     hasMajorRelatedActivities
   );
   
@@ -452,38 +717,32 @@ function createFallbackResponse(formData: any) {
   const validHonors = honors.filter((honor: { title: string }) => honor.title.trim() !== "");
   const awardCount = validHonors.length;
   
-  const hasNationalAwards = validHonors.some((award: { level: string }) => 
+  // Well-known competitions count at their real level and prestige, whatever level was entered
+  const awardRecognitions: AwardRecognition[] = validHonors.map(recognizeAward);
+  const mostPrestigiousAward = awardRecognitions.reduce<AwardRecognition | undefined>(
+    (best, award) => !best || award.prestige > best.prestige ? award : best, undefined);
+  
+  const hasNationalAwards = awardRecognitions.some(award => 
     award.level === "national" || award.level === "international"
   );
   
-  const hasStateAwards = validHonors.some((award: { level: string }) => 
-    award.level === "state" || award.level === "regional"
+  const hasStateAwards = awardRecognitions.some(award => 
+    award.level === "state"
   );
   
   const hasRecentAwards = validHonors.some((award: { year: string }) => {
     const year = parseInt(award.year || "0");
     const currentYear = new Date().getFullYear();
-    return year >= currentYear - 2;
+    return year >= currentYear - rules.awards.recentYears;
   });
   
-  const hasMajorRelatedAwards = validHonors.some((award: { title: string }) => {
-    const title = award.title.toLowerCase();
-    const major = formData.major.toLowerCase();
-    
-    return (
-      title.includes(major) || 
-      (major.includes("comput") && (title.includes("tech") || title.includes("coding") || title.includes("hackathon") || title.includes("programming"))) ||
-      (major.includes("engineer") && (title.includes("robot") || title.includes("design") || title.includes("invention"))) ||
-      (major.includes("biolog") && (title.includes("science") || title.includes("research") || title.includes("lab"))) ||
-      (major.includes("business") && (title.includes("entrepreneur") || title.includes("marketing") || title.includes("finance"))) ||
-      (major.includes("art") && (title.includes("design") || title.includes("creative") || title.includes("portfolio")))
-    );
-  });
+  const hasMajorRelatedAwards = validHonors.some((award: { title: string }) => 
+    isMajorRelatedAward(formData.major, award)
+  );
   
   const awardsGrade = calculateAwardsGrade(
     awardCount, 
-    hasNationalAwards, 
-    hasStateAwards,
+    scoreAwardPrestige(awardRecognitions), 
     hasRecentAwards,
     hasMajorRelatedAwards
   );
@@ -491,47 +750,110 @@ function createFallbackResponse(formData: any) {
   // 4. Overall Profile Assessment
   const overallGrade = calculateOverallGrade(academicGrade, extracurricularGrade, awardsGrade);
   
-  // In a future version, we could add a field to collect the student's home state
-  // For now, we'll handle state-based calculations in the college chance function itself
-  
   // ---- Generate college chances with realistic percentages ----
-  const collegeChances = formData.colleges.map((college: string) => {
-    const collegeName = college.toLowerCase();
+  const evaluateCollege = (college: { id?: string, name: string, round?: ApplicationRound }) => {
+    // Look the college up in the catalog; unlisted colleges get a generic estimate
+    const catalogEntry = resolveCollege(college);
+    const collegeTier = getCollegeTier(catalogEntry);
+    
+    // In-state status comes from the student's home state and the college's state and control
+    const residency = getResidencyAdjustment(
+      catalogEntry,
+      getResidencyStatus(formData.home, formData.residency, catalogEntry),
+      formData.home
+    );
     
-    // Determine college tier and selectivity
-    const collegeTier = determineCollegeTier(collegeName);
+    // Hooks the student consented to share, weighted for this college
+    const hooks = getHookAdjustment(formData.context, college.id || college.name, catalogEntry?.name || college.name, catalogEntry);
     
-    // Use residency status from the form data if available, otherwise default to out-of-state
-    const residencyStatus = formData.residency || "out-of-state";
+    // Scores this college will consider under its superscoring policy
+    const superscorePolicy = catalogEntry?.superscore || { sat: true, act: true };
+    const collegeScores = getConsideredScores(testHistory, superscorePolicy);
     
-    // Calculate chances based on student profile, college tier, and residency status
-    const {chance, percentage, color, feedback} = calculateCollegeChance(
-      collegeName,
+    // Calculate chances based on student profile, college tier, and residency
+    const {
+      chance, probability, lower, upper, factors, category, round, color, testScoreComparison, testingAdvice, program, alternateMajor, feedback
+    } = calculateCollegeChance(
+      catalogEntry?.name || college.name,
+      catalogEntry,
       collegeTier,
       formData.major.toLowerCase(),
       {
         academicGrade,
+        academicGradeWithoutTests,
         extracurricularGrade,
         awardsGrade,
         overallGrade,
         gpa,
-        sat,
-        act,
+        major: formData.major,
+        alternateMajor: formData.alternateMajor?.trim() || undefined,
+        sat: collegeScores.sat,
+        act: collegeScores.act,
         hasLeadershipRoles,
         hasNationalAwards
       },
-      residencyStatus
+      residency,
+      college.round,
+      hooks
     );
     
+    // Unlisted colleges have no known policy, so there is nothing reliable to say about superscoring,
+    // and superscoring is moot where scores aren't read
+    const superscoreNote = catalogEntry && catalogEntry.testPolicy !== "blind" ? describeSuperscoring(collegeScores, testHistory, catalogEntry.name, superscorePolicy) : null;
+    
     return {
-      name: college,
-      chance: `${chance} (${percentage}%)`,
+      name: catalogEntry?.name || college.name,
+      collegeId: catalogEntry?.id,
+      acceptanceRate: catalogEntry?.acceptanceRate,
+      chance: `${chance} (${formatProbabilityRange(lower, upper)})`,
+      probability,
+      lower,
+      upper,
+      factors,
       color,
       collegeTier,
       tierColor: getColorForTier(collegeTier),
-      feedback
+      testScoreComparison,
+      testingAdvice,
+      program,
+      alternateMajor,
+      category,
+      round,
+      feedback: superscoreNote ? `${feedback} ${superscoreNote}` : feedback
     };
-  });
+  };
+  
+  return {
+    rules, transcriptSummary, transcriptGpa, gpaScale, gpa, weightedGpa, apCourses, courseRigor, gradeTrend,
+    firstTerm, lastTerm, schoolContext, schoolRules, hasLimitedRigor, sat, act, strongerTest, academicGrade,
+    extracurricularCount, activityTiers, distinguishedActivities, hasLongTermCommitment,
+    hasSignificantTimeCommitment, deepestActivity, leadership, hasLeadershipRoles, hasMajorRelatedActivities,
+    extracurricularGrade, awardCount, awardRecognitions, mostPrestigiousAward, hasNationalAwards, hasStateAwards,
+    hasRecentAwards, hasMajorRelatedAwards, awardsGrade, overallGrade, evaluateCollege
+  };
+}
+
+function createFallbackResponse(formData: any) {
+  // Create a detailed and realistic analysis with categories and specific plans
+  const {
+    rules, transcriptSummary, transcriptGpa, gpaScale, gpa, weightedGpa, apCourses, courseRigor, gradeTrend,
+    firstTerm, lastTerm, schoolContext, schoolRules, hasLimitedRigor, sat, act, strongerTest, academicGrade,
+    extracurricularCount, activityTiers, distinguishedActivities, hasLongTermCommitment,
+    hasSignificantTimeCommitment, deepestActivity, leadership, hasLeadershipRoles, hasMajorRelatedActivities,
+    extracurricularGrade, awardCount, awardRecognitions, mostPrestigiousAward, hasNationalAwards, hasStateAwards,
+    hasRecentAwards, hasMajorRelatedAwards, awardsGrade, overallGrade, evaluateCollege
+  } = assessProfile(formData);
+  
+  const collegeChances = formData.colleges.map(evaluateCollege);
+  
+  // Round choices that the colleges don't allow or that conflict with each other
+  const applicationPlanWarnings = validateApplicationPlan(formData.colleges.map((college: { id?: string, name: string, round?: ApplicationRound }) => {
+    const catalogEntry = resolveCollege(college);
+    return { name: catalogEntry?.name || college.name, college: catalogEntry, round: college.round || "RD" };
+  }));
+  
+  // Balance of reaches, targets, likelies and safeties, with catalog colleges to fill any gaps
+  const listBalance = analyzeListBalance(collegeChances, getCollegeCatalog().colleges, evaluateCollege);
   
   // ---- Generate detailed improvement plan ----
   const improvementPlan = generateImprovementPlan({
@@ -545,8 +867,13 @@ function createFallbackResponse(formData: any) {
     act,
     apCourses,
     courseRigor,
+    gradeTrend,
+    schoolContext,
+    hasLimitedRigor,
     extracurricularCount,
+    distinguishedActivities,
     hasLeadershipRoles,
+    leadership,
     hasLongTermCommitment,
     hasSignificantTimeCommitment,
     hasMajorRelatedActivities,
@@ -556,44 +883,61 @@ function createFallbackResponse(formData: any) {
     hasRecentAwards,
     hasMajorRelatedAwards,
     major: formData.major,
-    colleges: formData.colleges
+    colleges: formData.colleges,
+    testingAdvice: collegeChances.map((chance: { name: string, testingAdvice?: TestingAdvice }) => ({ name: chance.name, advice: chance.testingAdvice }))
   });
   
   // ---- Create assessment sections ----
+  const sectionRules = rules.sections;
+  const { strong, weak } = sectionRules.academic;
   const academicSection = {
     title: "Academic Profile Assessment",
     grade: academicGrade,
     content: `Your academic profile received a grade of ${academicGrade}. ${academicGrade.includes("A") ? "You have a strong academic foundation" : 
               academicGrade.includes("B") ? "Your academic record is solid but could be improved" : 
-              "Your academic record needs significant improvement"}. GPA: ${gpa}, ${sat ? `SAT: ${sat}, ` : ''}${act ? `ACT: ${act}, ` : ''}AP Courses: ${apCourses}.`,
+              "Your academic record needs significant improvement"}. GPA: ${transcriptSummary && transcriptGpa !== undefined ? `${gpa.toFixed(2)} unweighted, ${weightedGpa.toFixed(2)} weighted (computed from ${transcriptSummary.courseCount} courses)` : describeGpa(formData.academics.gpa, gpaScale, gpa)}, ${sat ? `SAT: ${sat}, ` : ''}${act ? `ACT: ${act}, ` : ''}AP Courses: ${apCourses}.${strongerTest ? ` Your stronger test is the ${strongerTest.test}${strongerTest.test === "ACT" ? ` (concords to a ${strongerTest.satEquivalent} SAT)` : ` (concords to a ${concordSatToAct(strongerTest.score)} ACT)`}.` : ''}${gradeTrend && firstTerm && lastTerm ? ` Your grades ${gradeTrend.direction === "steady" ? "held steady overall" : `trend ${gradeTrend.direction}`}, from ${firstTerm.gpa.toFixed(2)} in ${firstTerm.label} to ${lastTerm.gpa.toFixed(2)} in ${lastTerm.label}.` : ''}${schoolContext?.coursesOffered === 0 ? " No AP/IB courses were available to you, so your rigor is judged on the courses that were." : schoolContext?.coursesOffered !== undefined ? ` Of the ${schoolContext.coursesOffered} AP/IB courses available to you, you have taken ${schoolContext.tookAllAvailable ? "all" : apCourses}.` : ''}${schoolContext?.rankTopPercent !== undefined ? ` You rank in the top ${schoolContext.rankTopPercent}% of your class.` : formData.school?.ranks === false ? " Your school doesn't rank, so colleges will read your GPA against its grade distribution." : ''}`,
     strengths: [
-      gpa >= 3.7 ? "Strong unweighted GPA demonstrates consistent academic performance" : null,
-      sat >= 1450 ? "Excellent SAT score places you in a competitive position" : null,
-      act >= 32 ? "Impressive ACT score strengthens your academic profile" : null,
-      apCourses >= 7 ? "Substantial AP/IB coursework shows academic rigor" : null
+      gpa >= strong.gpa ? "Strong unweighted GPA demonstrates consistent academic performance" : null,
+      sat >= strong.sat ? "Excellent SAT score places you in a competitive position" : null,
+      act >= strong.act ? "Impressive ACT score strengthens your academic profile" : null,
+      schoolContext?.availableShare !== undefined && schoolContext.availableShare >= schoolRules.strongShare
+        ? `Taking ${schoolContext.tookAllAvailable ? "every AP/IB course" : `${apCourses} of the ${schoolContext.coursesOffered} AP/IB courses`} your school offers shows you chose the most demanding schedule available`
+        : apCourses >= strong.apCourses ? "Substantial AP/IB coursework shows academic rigor" : null,
+      schoolContext?.rankTopPercent !== undefined && schoolContext.rankTopPercent <= strong.rankTopPercent ? `Class rank in the top ${schoolContext.rankTopPercent}% confirms your standing among your classmates` : null,
+      gradeTrend?.direction === "upward" ? `Upward grade trend (up ${gradeTrend.change.toFixed(2)} since ${firstTerm!.label}) shows the growth admissions readers look for` : null,
+      gradeTrend?.direction === "steady" && !gradeTrend.dip && gpa >= strong.gpa ? `Consistently strong grades across ${gradeTrend.terms.length} terms` : null
     ].filter(Boolean) as string[],
     weaknesses: [
-      gpa < 3.5 ? "GPA is below the competitive threshold for elite institutions" : null,
-      sat < 1400 && sat > 0 ? "SAT score may limit opportunities at highly selective schools" : null,
-      act < 30 && act > 0 ? "ACT score needs improvement for top-tier colleges" : null,
-      apCourses < 5 ? "Limited number of AP/IB courses indicates insufficient academic rigor" : null,
+      gpa < weak.gpa ? "GPA is below the competitive threshold for elite institutions" : null,
+      sat < weak.sat && sat > 0 ? "SAT score may limit opportunities at highly selective schools" : null,
+      act < weak.act && act > 0 ? "ACT score needs improvement for top-tier colleges" : null,
+      hasLimitedRigor
+        ? schoolContext?.availableShare !== undefined
+          ? `You have taken ${apCourses} of the ${schoolContext.coursesOffered} AP/IB courses your school offers, less than readers expect of selective applicants`
+          : "Limited number of AP/IB courses indicates insufficient academic rigor"
+        : null,
+      schoolContext?.rankTopPercent !== undefined && schoolContext.rankTopPercent > weak.rankTopPercent ? `Class rank outside the top ${weak.rankTopPercent}% of your class will weigh against you at selective colleges` : null,
+      gradeTrend?.direction === "downward" ? `Downward grade trend (down ${Math.abs(gradeTrend.change).toFixed(2)} by ${lastTerm!.label}) raises questions about your recent performance` : null,
+      gradeTrend?.dip ? `A dip in ${gradeTrend.dip.label} (to ${gradeTrend.dip.gpa.toFixed(2)}) stands out on your transcript` : null,
     ].filter(Boolean) as string[]
   };
   
   const extracurricularSection = {
     title: "Extracurricular Activities Assessment",
     grade: extracurricularGrade,
-    content: `Your extracurricular profile received a grade of ${extracurricularGrade}. You have ${extracurricularCount} significant activities${hasLeadershipRoles ? " with leadership positions" : ""}. ${hasLongTermCommitment ? "You've demonstrated commitment over time" : "Your activities lack long-term commitment"}.`,
+    content: `Your extracurricular profile received a grade of ${extracurricularGrade}. You have ${extracurricularCount} activities${distinguishedActivities.length > 0 ? ` (${distinguishedActivities.length} in Tier 1 or 2)` : ""}${hasLeadershipRoles ? " with leadership positions" : ""}. ${hasLongTermCommitment ? "You've demonstrated commitment over time" : "Your activities lack long-term commitment"}.${deepestActivity && deepestActivity.commitment.totalHours > 0 ? ` Your deepest commitment is ${deepestActivity.activity}, at about ${deepestActivity.commitment.totalHours.toLocaleString("en-US")} hours in total.` : ""}`,
     strengths: [
-      hasLeadershipRoles ? "Leadership positions demonstrate initiative and responsibility" : null,
+      distinguishedActivities.length > 0 ? `${distinguishedActivities.map(activity => activity.activity).join(", ")} ${distinguishedActivities.length === 1 ? "shows" : "show"} impact beyond typical participation` : null,
+      leadership.top ? `Leadership${leadership.top.role ? ` as ${leadership.top.role}` : ""} in ${leadership.top.activity}${leadership.top.scope !== "school" ? `, reaching beyond your school,` : ""} demonstrates initiative and responsibility` : null,
       hasLongTermCommitment ? "Long-term commitment to activities shows dedication" : null,
       hasSignificantTimeCommitment ? "Significant time investment indicates passion" : null,
       hasMajorRelatedActivities ? `Activities aligned with ${formData.major} strengthen your application narrative` : null
     ].filter(Boolean) as string[],
     weaknesses: [
+      extracurricularCount > 0 && distinguishedActivities.length === 0 ? "No activity yet reaches Tier 1 or 2 through recognition or leadership beyond your school" : null,
       !hasLeadershipRoles ? "Lack of leadership positions reduces the impact of your activities" : null,
       !hasLongTermCommitment ? "Insufficient long-term commitment to any single activity" : null,
-      extracurricularCount < 3 ? "Too few substantial activities in your profile" : null,
+      extracurricularCount < sectionRules.extracurricular.minActivities ? "Too few substantial activities in your profile" : null,
       !hasMajorRelatedActivities ? `No activities related to your intended major (${formData.major})` : null
     ].filter(Boolean) as string[]
   };
@@ -603,14 +947,15 @@ function createFallbackResponse(formData: any) {
     grade: awardsGrade,
     content: `Your honors & awards profile received a grade of ${awardsGrade}. You have ${awardCount} significant honors/awards${hasNationalAwards ? " including national recognition" : hasStateAwards ? " including state-level recognition" : ""}.`,
     strengths: [
+      mostPrestigiousAward?.knownAs && mostPrestigiousAward.prestige >= sectionRules.awards.topPrestige ? `${mostPrestigiousAward.knownAs} is among the most selective recognitions a high school student can earn` : null,
       hasNationalAwards ? "National awards significantly enhance your competitiveness" : null,
       hasStateAwards ? "State-level recognition demonstrates achievement beyond your school" : null,
-      awardCount >= 3 ? "Multiple awards show consistent recognition of your abilities" : null,
+      awardCount >= sectionRules.awards.strongCount ? "Multiple awards show consistent recognition of your abilities" : null,
       hasMajorRelatedAwards ? `Awards related to ${formData.major} strengthen your specialization narrative` : null
     ].filter(Boolean) as string[],
     weaknesses: [
       !hasNationalAwards && !hasStateAwards ? "Lack of recognition beyond school level limits impact" : null,
-      awardCount < 2 ? "Too few awards or honors in your profile" : null,
+      awardCount < sectionRules.awards.minCount ? "Too few awards or honors in your profile" : null,
       !hasMajorRelatedAwards ? `No awards related to your intended major (${formData.major})` : null,
       !hasRecentAwards ? "No recent awards suggests declining achievement" : null
     ].filter(Boolean) as string[]
@@ -626,10 +971,16 @@ function createFallbackResponse(formData: any) {
     sat,
     act,
     apCourses,
+    hasLimitedRigor,
     extracurricularCount,
     hasLeadershipRoles,
+    hasLongTermCommitment,
+    hasSignificantTimeCommitment,
+    hasMajorRelatedActivities,
     awardCount,
     hasNationalAwards,
+    hasStateAwards,
+    hasMajorRelatedAwards,
     major: formData.major,
     colleges: formData.colleges
   });
@@ -640,198 +991,129 @@ function createFallbackResponse(formData: any) {
     overallAssessment,
     assessmentSections,
     collegeChances,
-    improvementPlan
+    listOutcome: simulateListOutcome(collegeChances.map((college: { probability: number, category: string }) => ({
+      probability: college.probability,
+      isReach: college.category === "reach"
+    }))),
+    listBalance,
+    applicationPlanWarnings,
+    improvementPlan,
+    activityTiers: activityTiers.tiers,
+    awardRecognitions,
+    transcriptSummary,
+    gradeTrend,
+    schoolContext,
+    catalogVersion: getCollegeCatalog().version,
+    rulesVersion: rules.version
   };
 }
 
 // Academic grading function (A+, A, A-, B+, etc.)
-function calculateAcademicGrade(gpa: number, weightedGpa: number, sat: number, act: number, apCourses: number, courseRigor: string): string {
+// testScore is the stronger of the SAT and ACT on the SAT scale (ACT converted with the official concordance),
+// or null where scores aren't considered. availableShare is the share of the school's AP/IB courses taken,
+// when known (see schoolContext.ts); adjustmentPoints cover the grade trend and class rank.
+// Point tables and cutoffs come from the scoring rules.
+function calculateAcademicGrade(
+  gpa: number, 
+  weightedGpa: number, 
+  testScore: number | null, 
+  apCourses: number, 
+  availableShare: number | undefined, 
+  courseRigor: string, 
+  adjustmentPoints: number
+): string {
+  const rules = getScoringRules().academic;
   let points = 0;
   
-  // GPA evaluation (max 4 points)
-  if (gpa >= 4.0) points += 4;
-  else if (gpa >= 3.9) points += 3.8;
-  else if (gpa >= 3.8) points += 3.6;
-  else if (gpa >= 3.7) points += 3.4;
-  else if (gpa >= 3.6) points += 3.2;
-  else if (gpa >= 3.5) points += 3.0;
-  else if (gpa >= 3.3) points += 2.5;
-  else if (gpa >= 3.0) points += 2.0;
-  else if (gpa >= 2.7) points += 1.5;
-  else if (gpa >= 2.3) points += 1.0;
-  else points += 0.5;
-  
-  // SAT evaluation (max 3 points)
-  if (sat >= 1550) points += 3;
-  else if (sat >= 1500) points += 2.8;
-  else if (sat >= 1450) points += 2.6;
-  else if (sat >= 1400) points += 2.4;
-  else if (sat >= 1350) points += 2.2;
-  else if (sat >= 1300) points += 2.0;
-  else if (sat >= 1250) points += 1.8;
-  else if (sat >= 1200) points += 1.6;
-  else if (sat >= 1150) points += 1.4;
-  else if (sat >= 1100) points += 1.2;
-  else if (sat >= 1050) points += 1.0;
-  else if (sat >= 1000) points += 0.8;
-  else if (sat > 0) points += 0.5;
-  
-  // ACT evaluation as alternative to SAT (take the higher of SAT or ACT points)
-  let actPoints = 0;
-  if (act >= 35) actPoints = 3;
-  else if (act >= 34) actPoints = 2.8;
-  else if (act >= 33) actPoints = 2.6;
-  else if (act >= 32) actPoints = 2.4;
-  else if (act >= 31) actPoints = 2.2;
-  else if (act >= 30) actPoints = 2.0;
-  else if (act >= 29) actPoints = 1.8;
-  else if (act >= 28) actPoints = 1.6;
-  else if (act >= 27) actPoints = 1.4;
-  else if (act >= 26) actPoints = 1.2;
-  else if (act >= 25) actPoints = 1.0;
-  else if (act >= 24) actPoints = 0.8;
-  else if (act > 0) actPoints = 0.5;
-  
-  // Use whichever is higher, SAT points or ACT points
-  if (sat === 0 && act === 0) {
-    // If both are 0, deduct points for missing standardized tests
-    points -= 1;
-  } else {
-    // Get the last points addition (for SAT)
-    const lastSatPoints = points % 1 === 0 ? 0 : points % 1;
-    
-    // Remove the SAT points
-    points = Math.floor(points);
-    
-    // Add the higher of SAT or ACT points
-    points += Math.max(actPoints, lastSatPoints);
+  // GPA evaluation
+  points += lookupPoints(rules.gpa, gpa) ?? 0;
+  
+  // Standardized test evaluation on the SAT scale; a missing score costs points
+  if (testScore !== null) {
+    points += lookupPoints(rules.testScore, testScore) ?? rules.missingTestScorePoints;
   }
   
-  // AP/IB Courses evaluation (max 2 points)
-  if (apCourses >= 10) points += 2;
-  else if (apCourses >= 8) points += 1.8;
-  else if (apCourses >= 6) points += 1.5;
-  else if (apCourses >= 5) points += 1.3;
-  else if (apCourses >= 4) points += 1.1;
-  else if (apCourses >= 3) points += 0.9;
-  else if (apCourses >= 2) points += 0.7;
-  else if (apCourses >= 1) points += 0.5;
-  
-  // Course Rigor evaluation (max 1 point)
-  if (courseRigor === "very high") points += 1;
-  else if (courseRigor === "high") points += 0.8;
-  else if (courseRigor === "medium") points += 0.5;
-  else if (courseRigor === "low") points += 0.2;
-  
-  // Weighted GPA bonus (max 0.5 points)
+  // AP/IB Courses evaluation, relative to what the school offers when that is known: a school with
+  // three APs doesn't hold a student back, while a long list at a large school still counts in full
+  const countPoints = lookupPoints(rules.apCourses, apCourses) ?? 0;
+  points += availableShare !== undefined
+    ? Math.max(countPoints, lookupPoints(rules.schoolContext.availableShare, availableShare) ?? 0)
+    : countPoints;
+  
+  // Course Rigor evaluation
+  points += rules.courseRigor[courseRigor] ?? 0;
+  
+  // Weighted GPA bonus
   if (weightedGpa > 0) {
-    const difference = weightedGpa - gpa;
-    if (difference >= 0.7) points += 0.5;
-    else if (difference >= 0.5) points += 0.4;
-    else if (difference >= 0.3) points += 0.3;
-    else if (difference >= 0.2) points += 0.2;
-    else if (difference >= 0.1) points += 0.1;
+    points += lookupPoints(rules.weightedGpaBonus, weightedGpa - gpa) ?? 0;
   }
   
-  // Convert points to letter grade (max 10.5 points)
-  if (points >= 9.5) return "A+";
-  else if (points >= 9) return "A";
-  else if (points >= 8.5) return "A-";
-  else if (points >= 8) return "B+";
-  else if (points >= 7.5) return "B";
-  else if (points >= 7) return "B-";
-  else if (points >= 6.5) return "C+";
-  else if (points >= 6) return "C";
-  else if (points >= 5) return "C-";
-  else if (points >= 4) return "D+";
-  else return "D";
+  // Without scores the other components are scaled up to the full points available
+  if (testScore === null) {
+    const maxPoints = (table: { points: number }[]) => Math.max(...table.map(row => row.points));
+    const testPoints = maxPoints(rules.testScore);
+    const totalPoints = maxPoints(rules.gpa) + testPoints + maxPoints(rules.apCourses) +
+      Math.max(...Object.values(rules.courseRigor)) + maxPoints(rules.weightedGpaBonus);
+    points *= totalPoints / (totalPoints - testPoints);
+  }
+  
+  // Grade trend and class rank, as flat adjustments so they weigh the same with or without scores
+  points += adjustmentPoints;
+  
+  // Convert points to letter grade
+  return lookupGrade(rules.grades, points);
 }
 
 // Extracurricular grading function
 function calculateExtracurricularGrade(
-  count: number, 
-  hasLeadership: boolean, 
-  hasLongTerm: boolean,
-  hasSignificantTime: boolean,
+  tierScore: number, 
+  leadershipScore: number, 
+  deepestTotalHours: number,
   hasMajorRelated: boolean
 ): string {
+  const rules = getScoringRules().extracurricular;
   let points = 0;
   
-  // Count evaluation (max 3 points)
-  if (count >= 8) points += 3;
-  else if (count >= 6) points += 2.5;
-  else if (count >= 4) points += 2;
-  else if (count >= 3) points += 1.5;
-  else if (count >= 2) points += 1;
-  else if (count >= 1) points += 0.5;
-  
-  // Leadership evaluation (max 3 points)
-  if (hasLeadership) points += 3;
-  
-  // Long-term commitment (max 2 points)
-  if (hasLongTerm) points += 2;
-  
-  // Significant time commitment (max 1 point)
-  if (hasSignificantTime) points += 1;
-  
-  // Major-related activities (max 2 points)
-  if (hasMajorRelated) points += 2;
-  
-  // Convert points to letter grade (max 11 points)
-  if (points >= 10) return "A+";
-  else if (points >= 9) return "A";
-  else if (points >= 8) return "A-";
-  else if (points >= 7) return "B+";
-  else if (points >= 6) return "B";
-  else if (points >= 5) return "B-";
-  else if (points >= 4) return "C+";
-  else if (points >= 3) return "C";
-  else if (points >= 2) return "C-";
-  else if (points >= 1) return "D+";
-  else return "D";
+  // Activity impact, weighted by tier (see activityTiers.ts)
+  points += tierScore;
+  
+  // Leadership evaluation, weighted by role level and scope (see leadership.ts)
+  points += leadershipScore;
+  
+  // Depth: total lifetime hours in the most time-intensive activity, across years and weeks
+  points += lookupPoints(rules.commitment.totalHours, deepestTotalHours) ?? 0;
+  
+  // Major-related activities
+  if (hasMajorRelated) points += rules.majorRelatedPoints;
+  
+  // Convert points to letter grade
+  return lookupGrade(rules.grades, points);
 }
 
 // Awards & Honors grading function
 function calculateAwardsGrade(
   count: number, 
-  hasNational: boolean, 
-  hasState: boolean,
+  prestigeScore: number, 
   hasRecent: boolean,
   hasMajorRelated: boolean
 ): string {
+  const rules = getScoringRules().awards;
   let points = 0;
   
-  // Count evaluation (max 3 points)
-  if (count >= 5) points += 3;
-  else if (count >= 4) points += 2.5;
-  else if (count >= 3) points += 2;
-  else if (count >= 2) points += 1.5;
-  else if (count >= 1) points += 1;
-  
-  // National/International awards (max 3 points)
-  if (hasNational) points += 3;
-  
-  // State/Regional awards (max 2 points)
-  if (hasState) points += 2;
-  
-  // Recent awards (max 1 point)
-  if (hasRecent) points += 1;
-  
-  // Major-related awards (max 2 points)
-  if (hasMajorRelated) points += 2;
-  
-  // Convert points to letter grade (max 11 points)
-  if (points >= 10) return "A+";
-  else if (points >= 9) return "A";
-  else if (points >= 8) return "A-";
-  else if (points >= 7) return "B+";
-  else if (points >= 6) return "B";
-  else if (points >= 5) return "B-";
-  else if (points >= 4) return "C+";
-  else if (points >= 3) return "C";
-  else if (points >= 2) return "C-";
-  else if (points >= 1) return "D+";
-  else return "D";
+  // Count evaluation
+  points += lookupPoints(rules.count, count) ?? 0;
+  
+  // Prestige of the awards, from the knowledge base or their level (see awardKnowledgeBase.ts)
+  points += prestigeScore;
+  
+  // Recent awards
+  if (hasRecent) points += rules.recentPoints;
+  
+  // Major-related awards
+  if (hasMajorRelated) points += rules.majorRelatedPoints;
+  
+  // Convert points to letter grade
+  return lookupGrade(rules.grades, points);
 }
 
 // Overall profile grade calculation
@@ -854,289 +1136,336 @@ function calculateOverallGrade(academic: string, extracurricular: string, awards
     }
   };
   
-  // Convert numeric value back to letter grade
-  const numberToGrade = (num: number): string => {
-    if (num >= 11.5) return "A+";
-    else if (num >= 10.5) return "A";
-    else if (num >= 9.5) return "A-";
-    else if (num >= 8.5) return "B+";
-    else if (num >= 7.5) return "B";
-    else if (num >= 6.5) return "B-";
-    else if (num >= 5.5) return "C+";
-    else if (num >= 4.5) return "C";
-    else if (num >= 3.5) return "C-";
-    else if (num >= 2.5) return "D+";
-    else return "D";
-  };
-  
-  // Calculate weighted average (academics 50%, extracurriculars 30%, awards 20%)
+  // Calculate weighted average (by default academics 50%, extracurriculars 30%, awards 20%)
+  const weights = getScoringRules().overall;
   const academicNum = gradeToNumber(academic);
   const extracurricularNum = gradeToNumber(extracurricular);
   const awardsNum = gradeToNumber(awards);
   
-  const weightedAverage = (academicNum * 0.5) + (extracurricularNum * 0.3) + (awardsNum * 0.2);
+  const weightedAverage = (academicNum * weights.academic) + (extracurricularNum * weights.extracurricular) + (awardsNum * weights.awards);
   
-  return numberToGrade(weightedAverage);
+  // Convert numeric value back to letter grade
+  return lookupGrade(weights.grades, weightedAverage);
 }
 
-// Determine college tier based on name and reputation
-function determineCollegeTier(collegeName: string): string {
-  // Ivy League and most selective institutions
-  const ivyPlus = [
-    "harvard", "yale", "princeton", "columbia", "brown", "dartmouth", "cornell", "penn", 
-    "stanford", "mit", "caltech", "chicago", "duke", "johns hopkins", "northwestern"
-  ];
-  
-  // Highly selective institutions
-  const tier1 = [
-    "vanderbilt", "rice", "emory", "georgetown", "carnegie mellon", "berkeley", "ucla", 
-    "usc", "michigan", "notre dame", "washington", "virginia", "north carolina", "wake forest"
-  ];
-  
-  // Very selective institutions
-  const tier2 = [
-    "boston college", "tufts", "william", "amherst", "williams", "swarthmore", "bowdoin", "pomona",
-    "nyu", "boston university", "georgia tech", "illinois", "texas", "wisconsin", "florida"
-  ];
-  
-  // Selective institutions
-  const tier3 = [
-    "northeastern", "tulane", "villanova", "lehigh", "ohio state", "penn state", "minnesota",
-    "purdue", "rpi", "pepperdine", "florida state", "syracuse", "texas a&m"
-  ];
-  
-  // Determine the tier
-  if (ivyPlus.some(college => collegeName.includes(college))) {
-    return "ivy-plus";
-  } else if (tier1.some(college => collegeName.includes(college))) {
-    return "tier1";
-  } else if (tier2.some(college => collegeName.includes(college))) {
-    return "tier2";
-  } else if (tier3.some(college => collegeName.includes(college))) {
-    return "tier3";
-  } else {
-    return "tier4";
-  }
-}
+// Chance level shown next to each category
+const CATEGORY_CHANCE_LEVELS: Record<CollegeCategory, { chance: string, color: string }> = {
+  reach: { chance: "Low", color: "red-500" },
+  target: { chance: "Medium", color: "yellow-500" },
+  likely: { chance: "High", color: "green-500" },
+  safety: { chance: "High", color: "green-500" },
+};
 
 // Calculate realistic college admission chances
 function calculateCollegeChance(
   collegeName: string,
+  college: CollegeCatalogEntry | undefined,
   collegeTier: string,
   majorName: string,
   profile: {
     academicGrade: string,
+    academicGradeWithoutTests: string,
     extracurricularGrade: string,
     awardsGrade: string,
     overallGrade: string,
     gpa: number,
+    major: string,
+    alternateMajor?: string,
     sat: number,
     act: number,
     hasLeadershipRoles: boolean,
     hasNationalAwards: boolean
   },
-  state: string = "out-of-state" // Default to out-of-state for more realistic assessment
-): { chance: string, percentage: number, color: string, feedback: string } {
-  // Base percentage by tier - extremely unforgiving
-  let basePercentage = 0;
-  switch (collegeTier) {
-    case "ivy-plus": basePercentage = 1; break; // Elite institutions are nearly impossible
-    case "tier1": basePercentage = 4; break; // Extremely competitive
-    case "tier2": basePercentage = 12; break; // Very difficult
-    case "tier3": basePercentage = 25; break; // Challenging
-    default: basePercentage = 40; // Still quite selective
-  }
-  
-  // Adjust for in-state vs out-of-state status (if applicable)
-  // Determine if this is a public university that likely has in-state preference
-  const isPublicUniversity = collegeName.includes(" state ") || 
-                            collegeName.includes("university of ") || 
-                            collegeName.includes(" tech");
-                            
-  // Apply state-based adjustment for public universities
-  if (isPublicUniversity) {
-    if (state === "in-state") {
-      // In-state students generally have better chances at public universities
-      basePercentage += 15;
-    } else {
-      // Out-of-state students may have reduced chances at very competitive public institutions
-      if (collegeTier === "tier1" || collegeTier === "tier2") {
-        basePercentage -= 5;
-      }
-    }
-  }
-  
-  // Adjustments based on academic grade - more demanding
-  let academicBonus = 0;
-  switch (profile.academicGrade) {
-    case "A+": academicBonus = 12; break; // Only perfect records get significant bonus
-    case "A": academicBonus = 8; break;
-    case "A-": academicBonus = 5; break;
-    case "B+": academicBonus = 1; break; // B+ barely helps
-    case "B": academicBonus = -2; break; // B actually hurts for selective schools
-    case "B-": academicBonus = -5; break;
-    case "C+": academicBonus = -8; break;
-    case "C": academicBonus = -12; break;
-    default: academicBonus = -15; break; // Severe penalty for low academics
-  }
-  
-  // Adjustments based on extracurricular grade - more demanding
-  let ecBonus = 0;
-  switch (profile.extracurricularGrade) {
-    case "A+": ecBonus = 7; break; // Even perfect ECs provide less boost
-    case "A": ecBonus = 5; break;
-    case "A-": ecBonus = 3; break;
-    case "B+": ecBonus = 1; break;
-    case "B": ecBonus = -1; break; // B level ECs now hurt chances
-    case "B-": ecBonus = -3; break;
-    case "C+": ecBonus = -5; break;
-    case "C": ecBonus = -7; break;
-    default: ecBonus = -10; break;
-  }
-  
-  // Adjustments based on awards grade - more demanding
-  let awardsBonus = 0;
-  switch (profile.awardsGrade) {
-    case "A+": awardsBonus = 4; break; // Less impact from awards
-    case "A": awardsBonus = 2; break;
-    case "A-": awardsBonus = 1; break;
-    case "B+": awardsBonus = 0; break; // No benefit for average recognition
-    case "B": awardsBonus = -1; break;
-    case "B-": awardsBonus = -2; break;
-    default: awardsBonus = -3; break;
-  }
-  
-  // Special bonuses for top institutions
-  let specialBonus = 0;
+  residency: ResidencyAdjustment = { status: "out-of-state", adjustment: 0, notes: [] },
+  requestedRound: ApplicationRound = "RD",
+  hooks: HookAdjustment = { adjustment: 0, notes: [] }
+): {
+  chance: string,
+  probability: number,
+  lower: number,
+  upper: number,
+  factors: ChanceFactorContribution[],
+  category: CollegeCategory,
+  round: ApplicationRound,
+  color: string,
+  testScoreComparison?: TestScoreComparison,
+  testingAdvice?: TestingAdvice,
+  program?: string,
+  alternateMajor?: { major: string, program?: string, probability: number },
+  feedback: string
+} {
+  const lowerName = collegeName.toLowerCase();
+  const { fit, chanceModel } = getScoringRules();
+  
+  // Program and institution fit: each match nudges the odds up
+  let fitMatches = 0;
   
   // For STEM-focused institutions like MIT and Caltech
-  const isStemFocused = collegeName.includes("mit") || collegeName.includes("caltech") || collegeName.includes("tech");
-  const isStemMajor = majorName.includes("engineer") || majorName.includes("comput") || 
-                       majorName.includes("math") || majorName.includes("physic") || 
-                       majorName.includes("chemistry") || majorName.includes("biolog");
+  const isStemFocused = college ? college.focus === "stem" : lowerName.includes(" tech");
+  const majorAreas = getMajorAreas(majorName);
+  const isStemMajor = majorAreas.includes("stem");
   
-  if (isStemFocused && isStemMajor && (profile.gpa >= 3.9 || profile.sat >= 1500 || profile.act >= 34)) {
-    specialBonus += 5;
+  if (isStemFocused && isStemMajor && (profile.gpa >= fit.stem.minGpa || profile.sat >= fit.stem.minSat || profile.act >= fit.stem.minAct)) {
+    fitMatches += 1;
   }
   
   // For liberal arts institutions
-  const isLiberalArts = collegeName.includes("amherst") || collegeName.includes("williams") || 
-                         collegeName.includes("swarthmore") || collegeName.includes("bowdoin") || 
-                         collegeName.includes("pomona");
-  const isHumanitiesMajor = majorName.includes("english") || majorName.includes("history") || 
-                           majorName.includes("philosoph") || majorName.includes("politic") || 
-                           majorName.includes("art") || majorName.includes("language");
-  
-  if (isLiberalArts && isHumanitiesMajor && profile.gpa >= 3.8) {
-    specialBonus += 5;
+  const isLiberalArts = college?.focus === "liberal-arts";
+  const isHumanitiesMajor = majorAreas.includes("humanities");
+  
+  if (isLiberalArts && isHumanitiesMajor && profile.gpa >= fit.humanities.minGpa) {
+    fitMatches += 1;
   }
   
-  // For business-focused programs
-  const isBusinessSchool = collegeName.includes("wharton") || collegeName.includes("stern") || 
-                           collegeName.includes("ross") || collegeName.includes("mccombs") || 
-                           collegeName.includes("marshall");
-  const isBusinessMajor = majorName.includes("business") || majorName.includes("finance") || 
-                         majorName.includes("account") || majorName.includes("economic") || 
-                         majorName.includes("market");
+  // For business-focused programs (the business schools are listed as catalog aliases)
+  const collegeNames = [collegeName, ...(college?.aliases || [])].map(name => name.toLowerCase());
+  const isBusinessSchool = collegeNames.some(name => includesAny(name, fit.business.schoolKeywords));
+  const isBusinessMajor = majorAreas.includes("business");
   
   if (isBusinessSchool && isBusinessMajor && profile.hasLeadershipRoles) {
-    specialBonus += 5;
+    fitMatches += 1;
   }
   
-  // Calculate final percentage
-  let finalPercentage = basePercentage + academicBonus + ecBonus + awardsBonus + specialBonus;
-  
-  // Ensure percentage is in reasonable bounds
-  finalPercentage = Math.min(Math.max(finalPercentage, 1), 95);
-  
-  // Determine chance level and color - much stricter tiers
-  let chance, color;
-  if (finalPercentage >= 80) {
-    chance = "High";
-    color = "green-500";
-  } else if (finalPercentage >= 55) {
-    chance = "Medium";
-    color = "yellow-500";
-  } else {
-    chance = "Low";
-    color = "red-500";
-  }
+  // Compare test scores against this college's middle-50% range
+  const testScoreComparison = compareTestScores(profile.sat, profile.act, college);
+  
+  // Early rounds change the odds; a round the college doesn't offer falls back to the one it does
+  const round = resolveRound(college, requestedRound);
+  const roundEffect = getRoundAdjustment(college, round);
+  
+  // Majors admitted by program (direct-admit or capped) are judged against the program's admit rate
+  const programEffect = getProgramAdjustment(college, majorName);
+  
+  // Colleges missing from the catalog get a generic baseline and a wider interval
+  const submittedInputs = {
+    acceptanceRate: college ? college.acceptanceRate : chanceModel.unlistedAcceptanceRate,
+    listed: Boolean(college),
+    academicGrade: profile.academicGrade,
+    extracurricularGrade: profile.extracurricularGrade,
+    awardsGrade: profile.awardsGrade,
+    testScoreAdjustment: getTestScoreAdjustment(testScoreComparison),
+    hasTestScoreComparison: Boolean(testScoreComparison),
+    residencyAdjustment: residency.adjustment,
+    fitMatches,
+    roundAdjustment: roundEffect.adjustment,
+    programAdjustment: programEffect.adjustment,
+    hookAdjustment: hooks.adjustment
+  };
+  // Test-optional colleges admit non-submitters at somewhat lower rates: without a score, the rest of the
+  // application has to carry the academic case. Test-blind colleges read no one's scores, so no one is penalized.
+  const withheldInputs = {
+    ...submittedInputs,
+    academicGrade: profile.academicGradeWithoutTests,
+    testScoreAdjustment: college?.testPolicy === "blind" ? 0 : chanceModel.testScores.withheld,
+    hasTestScoreComparison: false
+  };
   
-  // Generate feedback
+  // The college's testing policy decides whether the score counts; where it's optional, the student
+  // submits only if the score helps. Unlisted colleges have no known policy and are scored as before.
+  const testingAdvice = college ? adviseTestSubmission(
+    college.testPolicy,
+    collegeName,
+    profile.sat > 0 || profile.act > 0,
+    estimateAdmissionChance(submittedInputs).probability,
+    estimateAdmissionChance(withheldInputs).probability
+  ) : undefined;
+  const scoreCounts = !testingAdvice || testingAdvice.recommendation === "submit" || testingAdvice.policy === "required";
+  const modelInputs = scoreCounts ? submittedInputs : withheldInputs;
+  const { probability, lower, upper, factors } = estimateAdmissionChance(modelInputs);
+  
+  // The same application in regular decision, to show what the early round is worth
+  const regularProbability = estimateAdmissionChance({
+    ...modelInputs,
+    roundAdjustment: getRoundAdjustment(college, "RD").adjustment
+  }).probability;
+  
+  // The same application with the alternate major
+  const alternateEffect = profile.alternateMajor ? getProgramAdjustment(college, profile.alternateMajor) : undefined;
+  const alternateMajor = profile.alternateMajor && alternateEffect ? {
+    major: profile.alternateMajor,
+    program: alternateEffect.program?.name,
+    probability: estimateAdmissionChance({ ...modelInputs, programAdjustment: alternateEffect.adjustment }).probability
+  } : undefined;
+  // The chance level and color follow the college's category, so the label and the category badge agree
+  // for every college, listed or not
+  const category = classifyCollege({ probability, lower, acceptanceRate: college?.acceptanceRate });
+  const { chance, color } = CATEGORY_CHANCE_LEVELS[category];
+  const isLikelyOrSafer = category === "likely" || category === "safety";
+  
+  // Generate feedback from the tier and the category, so it never contradicts the category badge
   let feedback = "";
   
-  // Base feedback on college tier and student profile
   if (collegeTier === "ivy-plus") {
-    if (finalPercentage >= 50) {
+    if (isLikelyOrSafer) {
       feedback = `Your exceptional profile gives you a strong position for ${collegeName}, but these schools remain highly unpredictable. Continue to distinguish yourself through unique contributions.`;
-    } else if (finalPercentage >= 25) {
+    } else if (college && probability > college.acceptanceRate) {
       feedback = `${collegeName} is extremely selective. While you have competitive elements in your profile, consider further strengthening your distinguishing qualities and ensure excellent essays.`;
     } else {
-      feedback = `${collegeName} admits fewer than 7% of applicants. Consider adding more high-match schools to your list and focus on what makes you truly exceptional in your application.`;
+      feedback = `${collegeName} admits ${college ? `about ${formatRate(college.acceptanceRate)}` : "very few"} of applicants. Consider adding more high-match schools to your list and focus on what makes you truly exceptional in your application.`;
     }
   } else if (collegeTier === "tier1") {
-    if (finalPercentage >= 60) {
+    if (isLikelyOrSafer) {
       feedback = `You're a competitive applicant for ${collegeName}. Focus on crafting essays that highlight how you align with their particular strengths and culture.`;
-    } else if (finalPercentage >= 40) {
+    } else if (category === "target") {
       feedback = `${collegeName} is highly selective, but you have reasonable prospects. Emphasize your unique qualities and demonstrate strong interest in the school.`;
     } else {
       feedback = `${collegeName} is very competitive. Consider ways to strengthen your profile in your strongest areas, and make sure to apply to a range of schools.`;
     }
   } else if (collegeTier === "tier2") {
-    if (finalPercentage >= 70) {
+    if (isLikelyOrSafer) {
       feedback = `You have an excellent chance at ${collegeName}. Make sure your application materials reflect your genuine interest in the school.`;
-    } else if (finalPercentage >= 50) {
+    } else if (category === "target") {
       feedback = `${collegeName} is a solid match for your profile. Emphasize your fit with the school's programs and culture in your application.`;
     } else {
       feedback = `With some targeted improvements to your profile, you could strengthen your application to ${collegeName}. Focus on demonstrating interest and fit.`;
     }
+  } else if (collegeTier === "unlisted") {
+    feedback = `${collegeName} is not in our college catalog yet, so this estimate uses a generic baseline rather than the school's own admission data. Check the school's Common Data Set for its acceptance rate and test score ranges.`;
   } else {
-    if (finalPercentage >= 80) {
+    if (category === "safety") {
       feedback = `${collegeName} is likely to be a strong safety school for you. Consider applying for merit scholarships.`;
-    } else if (finalPercentage >= 60) {
+    } else if (category === "likely") {
       feedback = `You have a good chance at ${collegeName}. Make sure to highlight your specific interests in their programs.`;
     } else {
       feedback = `With some improvements in key areas, you could increase your chances at ${collegeName}. Consider reaching out to admissions to learn more about what they value.`;
     }
   }
   
+  if (testScoreComparison && scoreCounts) {
+    feedback += ` ${describeTestScoreComparison(testScoreComparison, collegeName)}`;
+  }
+  
+  if (testingAdvice) {
+    feedback += ` ${testingAdvice.reason}`;
+  }
+  
+  const programNote = college ? describeProgramEffect(collegeName, college, profile.major, programEffect, probability, alternateMajor) : null;
+  if (programNote) {
+    feedback += ` ${programNote}`;
+  }
+  
+  if (residency.notes.length > 0) {
+    feedback += ` ${residency.notes.join(" ")}`;
+  }
+  
+  if (hooks.notes.length > 0) {
+    feedback += ` ${hooks.notes.join(" ")}`;
+  }
+  
+  const roundNote = describeRoundEffect(collegeName, requestedRound, roundEffect, probability, regularProbability);
+  if (roundNote) {
+    feedback += ` ${roundNote}`;
+  }
+  
+  feedback += formatProbability(lower) === formatProbability(upper)
+    ? ` Our best estimate is ${formatProbability(probability)}, and outcomes for profiles like yours typically stay there.`
+    : ` Our best estimate is ${formatProbability(probability)}, but outcomes for profiles like yours typically range from ${formatProbability(lower)} to ${formatProbability(upper)}.`;
+  
   return {
     chance,
-    percentage: Math.round(finalPercentage),
+    probability,
+    lower,
+    upper,
+    factors,
+    category,
+    round,
     color,
+    // A test-blind college never sees the score, so there is no range to compare against
+    testScoreComparison: testingAdvice?.policy === "blind" ? undefined : testScoreComparison,
+    testingAdvice,
+    program: programEffect.program?.name,
+    // Only worth showing where the alternate major is admitted differently
+    alternateMajor: alternateMajor && alternateMajor.program !== programEffect.program?.name ? alternateMajor : undefined,
     feedback
   };
 }
 
+function formatCollegeList(names: string[]): string {
+  if (names.length <= 2) return names.join(" and ");
+  return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
 // Generate specific improvement plans
 function generateImprovementPlan(profile: any): string[] {
   const improvementPlan = [];
   const major = profile.major;
   
   // ---- Academic improvements ----
-  if (profile.gpa < 3.7) {
-    improvementPlan.push(`ACADEMIC: Focus on improving your GPA to at least 3.7 in your remaining terms. Meet with teachers for extra help and consider structured study groups to enhance understanding of challenging subjects.`);
+  const sectionRules = getScoringRules().sections;
+  const { strong, weak, testScores } = sectionRules.academic;
+  if (profile.gpa < strong.gpa) {
+    improvementPlan.push(`ACADEMIC: Focus on improving your GPA to at least ${strong.gpa} in your remaining terms. Meet with teachers for extra help and consider structured study groups to enhance understanding of challenging subjects.`);
+  }
+  
+  // Trajectory: readers weigh recent terms most and look for an explanation of any dip
+  const gradeTrend: GradeTrend | undefined = profile.gradeTrend;
+  if (gradeTrend?.direction === "downward") {
+    const first = gradeTrend.terms[0];
+    const last = gradeTrend.terms[gradeTrend.terms.length - 1];
+    improvementPlan.push(`ACADEMIC: Your grades have slipped from ${first.gpa.toFixed(2)} in ${first.label} to ${last.gpa.toFixed(2)} in ${last.label}. Readers weigh your most recent terms most, so turning this around in the terms you have left matters more than any other academic step. If circumstances outside school played a part, explain them briefly in the additional information section.`);
+  } else if (gradeTrend?.direction === "upward") {
+    improvementPlan.push(`ACADEMIC: Keep your upward trend going through senior year; strong senior grades confirm it. Ask your counselor to point out your growth in their letter, since readers look for it.`);
+  }
+  if (gradeTrend?.dip) {
+    improvementPlan.push(`ACADEMIC: Your dip in ${gradeTrend.dip.label} (from ${(gradeTrend.dip.gpa + gradeTrend.dip.drop).toFixed(2)} to ${gradeTrend.dip.gpa.toFixed(2)}) will need explaining in the additional information section. Say briefly what happened and what changed; your recovery since then makes the rest of the case.`);
   }
   
-  if (profile.sat < 1400 && profile.act < 31) {
-    improvementPlan.push(`ACADEMIC: Raise your standardized test scores through targeted preparation. Consider professional test prep or structured self-study with official practice tests. A 50-100 point increase in SAT (or 2-3 points in ACT) would significantly strengthen your application.`);
+  // Testing advice depends on the policies of the colleges on the list: retesting only pays off where scores are read
+  const testingAdvice: { name: string, advice?: TestingAdvice }[] = profile.testingAdvice || [];
+  const missingScores = testingAdvice.filter(entry => entry.advice?.recommendation === "missing").map(entry => entry.name);
+  const requiringScores = testingAdvice
+    .filter(entry => entry.advice && (["required", "flexible"] as TestPolicy[]).includes(entry.advice.policy))
+    .map(entry => entry.name);
+  const readingScores = testingAdvice.filter(entry => entry.advice?.policy !== "blind");
+  
+  if (missingScores.length > 0) {
+    improvementPlan.push(`ACADEMIC: Register for the SAT or ACT now. ${formatCollegeList(missingScores)} ${missingScores.length === 1 ? "requires" : "require"} test scores (test-flexible colleges also accept AP or IB exams), and an application without them is incomplete.`);
+  } else if (profile.sat < testScores.competitive.sat && profile.act < testScores.competitive.act && readingScores.length > 0) {
+    if (requiringScores.length > 0) {
+      improvementPlan.push(`ACADEMIC: Raise your standardized test scores through targeted preparation. ${formatCollegeList(requiringScores)} ${requiringScores.length === 1 ? "requires" : "require"} scores, so a 50-100 point increase in SAT (or 2-3 points in ACT) would directly strengthen those applications. Consider professional test prep or structured self-study with official practice tests.`);
+    } else if (testingAdvice.some(entry => !entry.advice)) {
+      // Colleges outside the catalog have no known policy
+      improvementPlan.push(`ACADEMIC: Raise your standardized test scores through targeted preparation. Consider professional test prep or structured self-study with official practice tests. A 50-100 point increase in SAT (or 2-3 points in ACT) would significantly strengthen your application where scores are required.`);
+    } else {
+      improvementPlan.push(`ACADEMIC: The colleges on your list don't require test scores. Retest only if you can realistically reach their middle 50% range; otherwise apply test-optional where we recommend it and put that time into your coursework and activities.`);
+    }
   }
   
-  if (profile.apCourses < 5) {
-    improvementPlan.push(`ACADEMIC: Increase your course rigor by taking ${5 - profile.apCourses} more AP/IB classes, particularly in subjects related to ${major}. This demonstrates academic ambition and preparation for college-level work.`);
+  // Rigor advice is measured against the courses the school offers when we know them
+  const schoolContext: SchoolContextSummary | undefined = profile.schoolContext;
+  const targetShare = getScoringRules().academic.schoolContext.targetShare;
+  if (schoolContext?.tookAllAvailable) {
+    improvementPlan.push(`ACADEMIC: You've taken every AP/IB course your school offers, which colleges read as the most demanding schedule available to you. To go further, consider dual enrollment at a local college or accredited online courses in subjects related to ${major}, and check that your counselor's school profile notes the limited offerings.`);
+  } else if (profile.hasLimitedRigor && schoolContext?.coursesOffered !== undefined) {
+    const goal = Math.min(Math.ceil(targetShare * schoolContext.coursesOffered), weak.apCourses);
+    improvementPlan.push(`ACADEMIC: You've taken ${profile.apCourses} of the ${schoolContext.coursesOffered} AP/IB courses your school offers. Colleges judge rigor against what was available, so add ${goal - profile.apCourses} more, particularly in subjects related to ${major}.`);
+  } else if (profile.hasLimitedRigor) {
+    improvementPlan.push(`ACADEMIC: Increase your course rigor by taking ${weak.apCourses - profile.apCourses} more AP/IB classes, particularly in subjects related to ${major}. This demonstrates academic ambition and preparation for college-level work.`);
   }
   
-  if (profile.courseRigor === "low" || profile.courseRigor === "medium") {
+  if ((profile.courseRigor === "low" || profile.courseRigor === "medium") && !schoolContext?.tookAllAvailable) {
     improvementPlan.push(`ACADEMIC: Challenge yourself with more rigorous coursework next semester. If your school offers limited advanced options, consider dual enrollment at a local college or online advanced courses through accredited programs.`);
   }
   
   // ---- Extracurricular improvements ----
-  if (profile.extracurricularCount < 3) {
-    improvementPlan.push(`EXTRACURRICULAR: Pursue at least ${Math.max(3 - profile.extracurricularCount, 1)} more meaningful activities, ideally related to your intended major in ${major}. Quality involvement in fewer activities is better than minimal participation in many.`);
+  const { minActivities } = sectionRules.extracurricular;
+  if (profile.extracurricularCount < minActivities) {
+    improvementPlan.push(`EXTRACURRICULAR: Pursue at least ${Math.max(minActivities - profile.extracurricularCount, 1)} more meaningful activities, ideally related to your intended major in ${major}. Quality involvement in fewer activities is better than minimal participation in many.`);
   }
   
-  if (!profile.hasLeadershipRoles) {
+  // Leadership advice starts from the strongest role held, so a founder isn't told to seek leadership
+  const topRole: RoleClassification | undefined = profile.leadership?.top;
+  if (!topRole) {
     improvementPlan.push(`EXTRACURRICULAR: Seek leadership positions in your current activities. Start by taking on small responsibilities, then work toward formal leadership roles. Initiative and impact are what colleges value most.`);
+  } else if (topRole.level !== "founder") {
+    improvementPlan.push(`EXTRACURRICULAR: Build on your role${topRole.role ? ` as ${topRole.role}` : ""} in ${topRole.activity}. ${topRole.level === "officer" ? "Run for the top position" : "Aim for an officer position"} or lead an initiative of your own with results you can point to.`);
+  } else if (topRole.scope === "school") {
+    improvementPlan.push(`EXTRACURRICULAR: Take ${topRole.activity} beyond your school by partnering with other schools or community organizations or competing regionally. Leadership with a wider reach stands out more than another title.`);
+  }
+  
+  // Depth over breadth: push the strongest activity toward recognition beyond the school
+  if (profile.extracurricularCount > 0 && profile.distinguishedActivities?.length === 0) {
+    improvementPlan.push(`EXTRACURRICULAR: Take your strongest activity further rather than adding new ones. Enter a regional or state competition, publish or present your work, or lead a project that reaches beyond your school; one Tier 1 or 2 activity carries more weight than several clubs.`);
   }
   
   if (!profile.hasLongTermCommitment) {
@@ -1149,7 +1478,7 @@ function generateImprovementPlan(profile: any): string[] {
   }
   
   // ---- Awards & Honors improvements ----
-  if (profile.awardCount < 2) {
+  if (profile.awardCount < sectionRules.awards.minCount) {
     improvementPlan.push(`HONORS: Participate in competitions related to ${major} to gain recognition. Even small local awards demonstrate achievement and initiative outside the classroom.`);
   }
   
@@ -1178,54 +1507,10 @@ function generateImprovementPlan(profile: any): string[] {
   return improvementPlan;
 }
 
-// Helper function for major-related activity suggestions
-function getMajorRelatedActivitySuggestions(major: string): string {
-  major = major.toLowerCase();
-  
-  if (major.includes("comput") || major.includes("software") || major.includes("program")) {
-    return "joining a coding club, participating in hackathons, contributing to open-source projects, or creating a personal app or website portfolio.";
-  } else if (major.includes("engineer")) {
-    return "robotics competitions, engineering clubs, design projects, or shadowing professional engineers in your specific field of interest.";
-  } else if (major.includes("biolog") || major.includes("chem") || major.includes("science")) {
-    return "science fairs, research opportunities with local professors, science olympiad, or volunteer work in healthcare settings.";
-  } else if (major.includes("business") || major.includes("econom") || major.includes("finance")) {
-    return "starting a small business, joining DECA or FBLA, interning with local businesses, or creating entrepreneurial projects.";
-  } else if (major.includes("art") || major.includes("design") || major.includes("music")) {
-    return "building a portfolio, entering art competitions, joining performance groups, or volunteering with community arts programs.";
-  } else if (major.includes("polit") || major.includes("govern") || major.includes("law")) {
-    return "debate team, model UN, student government, or volunteering for political campaigns or advocacy organizations.";
-  } else if (major.includes("english") || major.includes("writing") || major.includes("journal")) {
-    return "school newspaper, literary magazine, writing competitions, or starting a blog focused on topics you're passionate about.";
-  } else if (major.includes("psych") || major.includes("sociol") || major.includes("human")) {
-    return "volunteering with relevant organizations, conducting small research projects, or shadowing professionals in your field of interest.";
-  } else {
-    return "clubs, competitions, or community service opportunities that connect to your specific interests in this field.";
-  }
-}
-
-// Helper function for major-specific advice
+// Major-specific advice from the major taxonomy
 function getMajorSpecificAdvice(major: string): string | null {
-  major = major.toLowerCase();
-  
-  if (major.includes("comput") || major.includes("software") || major.includes("program")) {
-    return `MAJOR-SPECIFIC: For ${major}, create a GitHub portfolio with personal projects demonstrating your coding skills. Learn languages relevant to your interest area (web development, AI, game design, etc.) and participate in coding challenges on platforms like LeetCode or HackerRank.`;
-  } else if (major.includes("engineer")) {
-    return `MAJOR-SPECIFIC: For ${major}, develop hands-on projects that demonstrate your problem-solving abilities and technical skills. Document your design process, challenges, and solutions. Consider participating in engineering competitions or research opportunities.`;
-  } else if (major.includes("biolog") || major.includes("chem") || major.includes("science")) {
-    return `MAJOR-SPECIFIC: For ${major}, seek laboratory or research experience, even if volunteer-based. Keep a detailed log of your experiments and findings. Consider science fair projects that demonstrate your ability to apply the scientific method.`;
-  } else if (major.includes("business") || major.includes("econom") || major.includes("finance")) {
-    return `MAJOR-SPECIFIC: For ${major}, develop quantitative and analytical skills through relevant coursework in mathematics and statistics. Gain practical experience through internships, business competitions, or entrepreneurial ventures that demonstrate leadership and initiative.`;
-  } else if (major.includes("art") || major.includes("design") || major.includes("music")) {
-    return `MAJOR-SPECIFIC: For ${major}, focus on developing a strong portfolio that showcases your technical skills, creative thinking, and personal style. Seek mentorship from professionals in your field and participate in exhibitions or performances to gain visibility.`;
-  } else if (major.includes("polit") || major.includes("govern") || major.includes("law")) {
-    return `MAJOR-SPECIFIC: For ${major}, develop strong writing and argumentation skills through debate, mock trial, or similar activities. Stay informed on current events and develop nuanced perspectives on important issues in your field of interest.`;
-  } else if (major.includes("english") || major.includes("writing") || major.includes("journal")) {
-    return `MAJOR-SPECIFIC: For ${major}, read widely across genres and time periods. Develop your writing through regular practice and seek publication opportunities in school or local publications. Consider entering writing competitions to gain recognition.`;
-  } else if (major.includes("psych") || major.includes("sociol") || major.includes("human")) {
-    return `MAJOR-SPECIFIC: For ${major}, seek experiences that develop your understanding of human behavior and social systems. This might include volunteering with diverse populations, conducting simple research projects, or shadowing professionals in the field.`;
-  }
-  
-  return null;
+  const advice = findPrimaryMajorFamily(major)?.advice;
+  return advice ? `MAJOR-SPECIFIC: For ${major}, ${advice}` : null;
 }
 
 // Generate overall assessment with specific grades
@@ -1258,13 +1543,19 @@ function generateOverallAssessment(profile: any): string {
   // Create a more concise summary
   let assessment = '';
   
+  // The same cutoffs as the section strengths and weaknesses
+  const sectionRules = getScoringRules().sections;
+  const { strong, weak, testScores } = sectionRules.academic;
+  const { minActivities, manyActivities } = sectionRules.extracurricular;
+  const reaches = (cutoff: { sat: number, act: number }) => profile.sat >= cutoff.sat || profile.act >= cutoff.act;
+  
   // Start with overall competitiveness assessment
   assessment += `Based on your profile with an overall grade of ${overallGrade}, here's an analysis of your college admission prospects:\n\n`;
   if (academicGrade.startsWith('A')) {
     assessment += `Your academic record is strong with a ${profile.gpa} GPA${profile.apCourses ? ` and ${profile.apCourses} AP/advanced courses` : ''}. `;
-    if (profile.sat >= 1400 || profile.act >= 31) {
+    if (reaches(testScores.competitive)) {
       assessment += `Your test scores are competitive for selective institutions. `;
-    } else if (profile.sat >= 1250 || profile.act >= 28) {
+    } else if (reaches(testScores.solid)) {
       assessment += `Your test scores are solid, though you need higher scores (1500+ SAT/34+ ACT) to be truly competitive for top-20 schools. `;
     } else if (profile.sat > 0 || profile.act > 0) {
       assessment += `Your test scores need significant improvement to match your GPA for selective schools. `;
@@ -1273,7 +1564,7 @@ function generateOverallAssessment(profile: any): string {
     }
   } else if (academicGrade.startsWith('B')) {
     assessment += `Your academic performance is average with a ${profile.gpa} GPA - this will be a major hurdle for top-50 schools where the average GPA is typically 3.8+. `;
-    if (profile.sat >= 1350 || profile.act >= 30) {
+    if (reaches(testScores.offsetsGpa)) {
       assessment += `Your strong test scores help compensate for your GPA, but the GPA threshold will still be challenging for highly selective schools. `;
     } else {
       assessment += `Both your GPA and test scores are below competitive ranges for selective institutions. `;
@@ -1283,15 +1574,15 @@ function generateOverallAssessment(profile: any): string {
     assessment += `Focus on test-optional schools or schools with 70%+ acceptance rates where your profile may be more competitive. `;
   }
   assessment += `\n\nStrengths: `;
-  if (profile.gpa >= 3.7) assessment += `Strong GPA. `;
-  if (profile.sat >= 1450 || profile.act >= 33) assessment += `Excellent test scores. `;
-  if (profile.apCourses >= 7) assessment += `Rigorous course load with multiple AP/IB courses. `;
+  if (profile.gpa >= strong.gpa) assessment += `Strong GPA. `;
+  if (reaches(strong)) assessment += `Excellent test scores. `;
+  if (profile.apCourses >= strong.apCourses) assessment += `Rigorous course load with multiple AP/IB courses. `;
   
   assessment += `\n\nWeaknesses: `;
-  if (profile.gpa < 3.7) assessment += `GPA below competitive threshold for selective schools. `;
-  if ((profile.sat > 0 && profile.sat < 1400) || (profile.act > 0 && profile.act < 31)) assessment += `Test scores below target range for selective colleges. `;
+  if (profile.gpa < strong.gpa) assessment += `GPA below competitive threshold for selective schools. `;
+  if ((profile.sat > 0 && profile.sat < weak.sat) || (profile.act > 0 && profile.act < weak.act)) assessment += `Test scores below target range for selective colleges. `;
   if (profile.sat === 0 && profile.act === 0) assessment += `No standardized test scores provided. `;
-  if (profile.apCourses < 5) assessment += `Limited advanced coursework. `;
+  if (profile.hasLimitedRigor) assessment += `Limited advanced coursework. `;
   
   // Extracurricular assessment
   assessment += `\n\nExtracurricular Activities (Grade: ${extracurricularGrade}):\n`;
@@ -1305,7 +1596,7 @@ function generateOverallAssessment(profile: any): string {
     if (!profile.hasLeadershipRoles) {
       assessment += `The absence of leadership positions is a significant weakness for selective admissions. `;
     }
-    if (profile.extracurricularCount < 3) {
+    if (profile.extracurricularCount < minActivities) {
       assessment += `Your limited number of activities suggests a lack of diverse interests or community engagement. `;
     }
   } else {
@@ -1315,13 +1606,13 @@ function generateOverallAssessment(profile: any): string {
   
   assessment += `\n\nStrengths: `;
   if (profile.hasLeadershipRoles) assessment += `Demonstrated leadership experience. `;
-  if (profile.extracurricularCount >= 4) assessment += `Multiple activities showing diverse interests. `;
+  if (profile.extracurricularCount >= manyActivities) assessment += `Multiple activities showing diverse interests. `;
   if (profile.hasLongTermCommitment) assessment += `Long-term commitment to activities. `;
   
   assessment += `\n\nWeaknesses: `;
   if (!profile.hasLeadershipRoles) assessment += `Lack of leadership positions. `;
   if (!profile.hasMajorRelatedActivities) assessment += `Few activities related to intended major. `;
-  if (profile.extracurricularCount < 3) assessment += `Limited extracurricular engagement. `;
+  if (profile.extracurricularCount < minActivities) assessment += `Limited extracurricular engagement. `;
   if (!profile.hasSignificantTimeCommitment) assessment += `No activities with significant time commitment. `;
   
   // Honors and awards assessment
@@ -1349,7 +1640,7 @@ function generateOverallAssessment(profile: any): string {
   assessment += `\n\nWeaknesses: `;
   if (!profile.hasNationalAwards) assessment += `Lack of national-level recognition. `;
   if (!profile.hasStateAwards) assessment += `No state/regional achievements. `;
-  if (profile.awardCount < 2) assessment += `Limited formal recognition. `;
+  if (profile.awardCount < sectionRules.awards.minCount) assessment += `Limited formal recognition. `;
   if (!profile.hasMajorRelatedAwards) assessment += `No awards related to intended major. `;
   
   // Major fit assessment
@@ -1357,22 +1648,22 @@ function generateOverallAssessment(profile: any): string {
   if (major) {
     assessment += `Your intended major is ${major}. `;
     
-    // Determine if they have good preparation for their stated major
-    const majorLower = major.toLowerCase();
+    // Determine if they have good preparation for their stated major, by what programs in its area weigh:
+    // academics in STEM, leadership in business, and work in the field everywhere else
+    const family = findPrimaryMajorFamily(major);
     let majorFitScore = 0;
     
-    // Calculate major fit score
-    if ((majorLower.includes("comput") || majorLower.includes("engineer") || majorLower.includes("math"))) {
+    if (family?.area === "stem") {
       if (profile.academicGrade.startsWith('A')) majorFitScore += 2;
       else if (profile.academicGrade.startsWith('B')) majorFitScore += 1;
       
       if (profile.hasMajorRelatedActivities) majorFitScore += 2;
       if (profile.hasMajorRelatedAwards) majorFitScore += 1;
-    } else if ((majorLower.includes("business") || majorLower.includes("finance") || majorLower.includes("econ"))) {
+    } else if (family?.area === "business") {
       if (profile.hasLeadershipRoles) majorFitScore += 2;
       if (profile.hasMajorRelatedActivities) majorFitScore += 2;
-      if (profile.extracurricularCount >= 3) majorFitScore += 1;
-    } else if ((majorLower.includes("art") || majorLower.includes("music") || majorLower.includes("drama"))) {
+      if (profile.extracurricularCount >= minActivities) majorFitScore += 1;
+    } else if (family) {
       if (profile.hasMajorRelatedActivities) majorFitScore += 3;
       if (profile.hasMajorRelatedAwards) majorFitScore += 2;
     }
@@ -1386,13 +1677,9 @@ function generateOverallAssessment(profile: any): string {
       assessment += `Your profile currently shows limited connection to your intended major. Competitive applicants typically demonstrate substantive engagement with their field of interest through coursework, activities, and achievements.\n\n`;
     }
     
-    // Major-specific advice
-    if (majorLower.includes("comput") || majorLower.includes("software") || majorLower.includes("program")) {
-      assessment += `For Computer Science/Programming: Top programs look for coding projects, hackathon participation, math competition awards, and advanced math/CS coursework. Competition is extremely high for these majors at selective schools.\n\n`;
-    } else if (majorLower.includes("engineer")) {
-      assessment += `For Engineering: Strong math/science grades, research experience, and hands-on projects are essential. The type of engineering matters - biomedical and computer engineering are typically more competitive than other fields.\n\n`;
-    } else if (majorLower.includes("business")) {
-      assessment += `For Business: Leadership experience, entrepreneurial initiatives, and quantitative skills are highly valued. Top business programs like Wharton, Stern, and Ross often have acceptance rates below 10%.\n\n`;
+    // What programs in the field look for
+    if (family?.readerNote) {
+      assessment += `For ${family.name}: ${family.readerNote}\n\n`;
     }
   } else {
     assessment += `No major preference indicated. While this is acceptable, having a clear direction can strengthen your application, particularly for specialized programs. Undecided applicants should demonstrate intellectual curiosity across multiple disciplines.\n\n`;
@@ -0,0 +1,51 @@
+import { type SchoolContext, type SchoolContextSummary } from "@shared/schema";
+import { getScoringRules, lookupPoints } from "./scoringRules";
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// A whole number of at least min, or undefined for anything else
+function parseCount(text: string | undefined, min: number): number | undefined {
+  const value = Number((text || "").trim());
+  return (text || "").trim() !== "" && Number.isInteger(value) && value >= min ? value : undefined;
+}
+
+/**
+ * The student's AP/IB courses against those the school offers, and class rank as a top percentage, from
+ * the exact rank or else the decile. A school offering no AP/IB courses counts as fully taken. Figures
+ * that can't be read are left out; undefined when the school wasn't described.
+ */
+export function assessSchoolContext(school: SchoolContext | undefined, apCourses: number): SchoolContextSummary | undefined {
+  if (!school) return undefined;
+
+  const coursesOffered = parseCount(school.advancedCoursesOffered, 0);
+  const availableShare = coursesOffered === undefined ? undefined
+    : coursesOffered === 0 ? 1
+    : Math.min(apCourses / coursesOffered, 1);
+
+  let rankTopPercent: number | undefined;
+  if (school.ranks) {
+    const classRank = parseCount(school.classRank, 1);
+    const classSize = parseCount(school.classSize, 1);
+    const decile = parseCount(school.rankDecile, 1);
+    if (classRank !== undefined && classSize !== undefined && classRank <= classSize) {
+      rankTopPercent = round1(classRank / classSize * 100);
+    } else if (decile !== undefined && decile <= 10) {
+      rankTopPercent = decile * 10;
+    }
+  }
+
+  return {
+    coursesOffered,
+    availableShare: availableShare === undefined ? undefined : Math.round(availableShare * 100) / 100,
+    tookAllAvailable: availableShare === 1,
+    rankTopPercent,
+  };
+}
+
+/**
+ * Points added to the academic grade for class rank; nothing where the school doesn't rank
+ */
+export function scoreClassRank(summary: SchoolContextSummary | undefined): number {
+  if (summary?.rankTopPercent === undefined) return 0;
+  return lookupPoints(getScoringRules().academic.schoolContext.rankPercentile, 100 - summary.rankTopPercent) ?? 0;
+}
@@ -0,0 +1,73 @@
+import fs from "fs";
+import path from "path";
+import {
+  scoringRulesSchema,
+  type GradeTable, type LetterGrade, type PointsTable, type ScoringRules
+} from "@shared/schema";
+
+// Like the catalog, the rules are plain JSON so the model can be tuned without a code change
+const DEFAULT_RULES_PATH = path.resolve(process.cwd(), "server", "data", "scoringRules.json");
+
+// How often the rules file is checked for changes
+const WATCH_INTERVAL_MS = 2000;
+
+let rules: ScoringRules | null = null;
+
+function getRulesPath(): string {
+  return process.env.SCORING_RULES_PATH || DEFAULT_RULES_PATH;
+}
+
+/**
+ * Load and validate the scoring rules from disk, replacing any previously loaded copy
+ */
+export function loadScoringRules(filePath: string = getRulesPath()): ScoringRules {
+  const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  rules = scoringRulesSchema.parse(raw);
+  return rules;
+}
+
+export function getScoringRules(): ScoringRules {
+  return rules ?? loadScoringRules();
+}
+
+/**
+ * Reload the rules whenever the file changes, so the model can be tuned without a restart. An invalid
+ * edit is reported and the rules already loaded stay in effect.
+ */
+export function watchScoringRules(
+  onReload: (rules: ScoringRules) => void,
+  onError: (error: unknown) => void,
+  filePath: string = getRulesPath()
+): () => void {
+  const listener = (current: fs.Stats, previous: fs.Stats) => {
+    if (current.mtimeMs === previous.mtimeMs) return;
+    try {
+      onReload(loadScoringRules(filePath));
+    } catch (error) {
+      onError(error);
+    }
+  };
+  fs.watchFile(filePath, { interval: WATCH_INTERVAL_MS, persistent: false }, listener);
+  return () => fs.unwatchFile(filePath, listener);
+}
+
+/**
+ * Points for a value from a step table, or undefined when the value is below every row
+ */
+export function lookupPoints(table: PointsTable, value: number): number | undefined {
+  return table.find(row => value >= row.min)?.points;
+}
+
+/**
+ * Letter grade for a point total; totals below every row get the lowest grade
+ */
+export function lookupGrade(table: GradeTable, points: number): LetterGrade {
+  return (table.find(row => points >= row.min) ?? table[table.length - 1]).grade;
+}
+
+/**
+ * Whether the text contains any of the keywords
+ */
+export function includesAny(text: string, keywords: string[]): boolean {
+  return keywords.some(keyword => text.includes(keyword));
+}
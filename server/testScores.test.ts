@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { academicInfoSchema, type CollegeCatalogEntry } from "@shared/schema";
+import { getCollegeById } from "./catalog";
+import { getScoringRules } from "./scoringRules";
+import {
+  adviseTestSubmission, compareTestScores, concordActToSat, concordSatToAct, getConsideredScores,
+  getTestScoreAdjustment, parseTestHistory, pickStrongerTest
+} from "./testScores";
+
+const history = (academics: object) => parseTestHistory(academicInfoSchema.parse({ gpa: "3.8", ...academics }));
+
+describe("concordance", () => {
+  it("converts ACT composites to the SAT scale and back", () => {
+    expect(concordActToSat(36)).toBe(1590);
+    expect(concordActToSat(31)).toBe(1400);
+    expect(concordSatToAct(1400)).toBe(31);
+    expect(concordSatToAct(1590)).toBe(36);
+  });
+
+  it("treats missing and out-of-table scores as no score", () => {
+    expect(concordActToSat(0)).toBe(0);
+    expect(concordSatToAct(400)).toBe(0);
+  });
+});
+
+describe("getConsideredScores", () => {
+  const sittings = history({
+    satSittings: [{ readingWriting: "760", math: "720" }, { readingWriting: "700", math: "780" }],
+    actSittings: [
+      { english: "34", math: "33", reading: "35", science: "32" },
+      { english: "36", math: "35", reading: "33", science: "31" },
+    ],
+  });
+
+  it("superscores across sittings where the college allows it", () => {
+    expect(getConsideredScores(sittings)).toEqual({ sat: 1540, act: 35, satSuperscored: true, actSuperscored: true });
+  });
+
+  it("uses the best single sitting where the college doesn't superscore", () => {
+    expect(getConsideredScores(sittings, { sat: false, act: false })).toEqual({ sat: 1480, act: 34, satSuperscored: false, actSuperscored: false });
+  });
+
+  it("counts a typed total without sections as a single sitting", () => {
+    expect(getConsideredScores(history({ sat: "1450" }))).toEqual({ sat: 1450, act: 0, satSuperscored: false, actSuperscored: false });
+  });
+});
+
+describe("pickStrongerTest", () => {
+  it("picks the test that is higher on the SAT scale", () => {
+    expect(pickStrongerTest(1450, 34)).toEqual({ test: "ACT", score: 34, satEquivalent: 1500 });
+    expect(pickStrongerTest(1520, 34)).toEqual({ test: "SAT", score: 1520, satEquivalent: 1520 });
+  });
+
+  it("returns undefined without scores", () => {
+    expect(pickStrongerTest(0, 0)).toBeUndefined();
+  });
+});
+
+describe("compareTestScores", () => {
+  const mit = getCollegeById("mit")!;
+
+  it("places the score against the college's middle 50%", () => {
+    expect(compareTestScores(1600, 0, mit)?.position).toBe("above");
+    expect(compareTestScores(1540, 0, mit)?.position).toBe("within");
+    expect(compareTestScores(1400, 0, mit)?.position).toBe("below");
+  });
+
+  it("falls back to the other test where the college publishes no range for the stronger one", () => {
+    const actOnly: CollegeCatalogEntry = { ...mit, satRange: undefined };
+    expect(compareTestScores(1550, 33, actOnly)).toMatchObject({ test: "ACT", score: 33, position: "below" });
+  });
+
+  it("returns undefined for unlisted colleges and students without scores", () => {
+    expect(compareTestScores(1500, 0, undefined)).toBeUndefined();
+    expect(compareTestScores(0, 0, mit)).toBeUndefined();
+  });
+});
+
+describe("getTestScoreAdjustment", () => {
+  const rules = getScoringRules().chanceModel.testScores;
+  const range = { test: "SAT" as const, p25: 1400, p75: 1500 };
+
+  it("rewards scores above the range and penalizes scores below it", () => {
+    expect(getTestScoreAdjustment({ ...range, score: 1550, position: "above" })).toBe(rules.above);
+    expect(getTestScoreAdjustment({ ...range, score: 1350, position: "below" })).toBe(rules.below);
+    expect(getTestScoreAdjustment({ ...range, score: 1250, position: "below" })).toBe(rules.farBelow);
+  });
+
+  it("is neutral in the middle of the range and grows toward its edges", () => {
+    expect(getTestScoreAdjustment({ ...range, score: 1450, position: "within" })).toBe(0);
+    expect(getTestScoreAdjustment({ ...range, score: 1500, position: "within" })).toBeCloseTo(rules.withinSlope / 2);
+    expect(getTestScoreAdjustment({ ...range, score: 1400, position: "within" })).toBeCloseTo(-rules.withinSlope / 2);
+  });
+
+  it("is zero without a comparison", () => {
+    expect(getTestScoreAdjustment(undefined)).toBe(0);
+  });
+});
+
+describe("adviseTestSubmission", () => {
+  it("submits only where the score raises the estimate at test-optional colleges", () => {
+    expect(adviseTestSubmission("optional", "Example College", true, 0.3, 0.25).recommendation).toBe("submit");
+    expect(adviseTestSubmission("optional", "Example College", true, 0.2, 0.25).recommendation).toBe("withhold");
+  });
+
+  it("flags missing scores where testing is required", () => {
+    expect(adviseTestSubmission("required", "Example College", false, 0, 0).recommendation).toBe("missing");
+    expect(adviseTestSubmission("flexible", "Example College", false, 0, 0).recommendation).toBe("missing");
+  });
+
+  it("never reads scores at test-blind colleges", () => {
+    expect(adviseTestSubmission("blind", "Example College", true, 0.5, 0.4).recommendation).toBe("not-considered");
+  });
+});
@@ -0,0 +1,253 @@
+import {
+  type AcademicInfo, type CollegeCatalogEntry, type ScoreRange, type TestingAdvice, type TestPolicy, type TestScoreComparison
+} from "@shared/schema";
+import { formatProbability } from "@shared/format";
+import { getScoringRules } from "./scoringRules";
+
+// Official 2018 ACT/SAT concordance: ACT composite -> SAT total
+const ACT_TO_SAT: Record<number, number> = {
+  36: 1590, 35: 1540, 34: 1500, 33: 1460, 32: 1430, 31: 1400, 30: 1370, 29: 1340,
+  28: 1310, 27: 1280, 26: 1240, 25: 1210, 24: 1180, 23: 1140, 22: 1110, 21: 1080,
+  20: 1040, 19: 1010, 18: 970, 17: 930, 16: 890, 15: 850, 14: 800, 13: 760,
+  12: 710, 11: 670, 10: 630, 9: 590,
+};
+
+// Lowest SAT total that concords to each ACT composite (same 2018 tables, SAT -> ACT direction)
+const SAT_TO_ACT_FLOORS: [number, number][] = [
+  [1570, 36], [1530, 35], [1490, 34], [1450, 33], [1420, 32], [1390, 31], [1360, 30],
+  [1330, 29], [1300, 28], [1260, 27], [1230, 26], [1200, 25], [1160, 24], [1130, 23],
+  [1100, 22], [1060, 21], [1030, 20], [990, 19], [960, 18], [920, 17], [880, 16],
+  [830, 15], [780, 14], [730, 13], [690, 12], [650, 11], [620, 10], [590, 9],
+];
+
+export function concordActToSat(act: number): number {
+  if (act <= 0) return 0;
+  return ACT_TO_SAT[Math.min(Math.round(act), 36)] ?? 0;
+}
+
+export function concordSatToAct(sat: number): number {
+  const match = SAT_TO_ACT_FLOORS.find(([floor]) => sat >= floor);
+  return match ? match[1] : 0;
+}
+
+// Every score the student reported, parsed from the form strings
+export interface TestHistory {
+  reportedSat: number;
+  reportedAct: number;
+  satSittings: { readingWriting: number, math: number }[];
+  actSittings: { english: number, math: number, reading: number, science: number }[];
+}
+
+export interface ConsideredScores {
+  sat: number;
+  act: number;
+  satSuperscored: boolean;
+  actSuperscored: boolean;
+}
+
+export interface StrongerTest {
+  test: "SAT" | "ACT";
+  score: number;
+  satEquivalent: number;
+}
+
+export function parseTestHistory(academics: AcademicInfo): TestHistory {
+  return {
+    reportedSat: parseInt(academics.sat || "") || 0,
+    reportedAct: parseInt(academics.act || "") || 0,
+    satSittings: (academics.satSittings || []).map(sitting => ({
+      readingWriting: parseInt(sitting.readingWriting) || 0,
+      math: parseInt(sitting.math) || 0,
+    })),
+    actSittings: (academics.actSittings || []).map(sitting => ({
+      english: parseInt(sitting.english) || 0,
+      math: parseInt(sitting.math) || 0,
+      reading: parseInt(sitting.reading) || 0,
+      science: parseInt(sitting.science) || 0,
+    })),
+  };
+}
+
+// ACT composites are the average of the four sections, with halves rounded up
+function actComposite(english: number, math: number, reading: number, science: number): number {
+  return Math.round((english + math + reading + science) / 4);
+}
+
+/**
+ * The scores a college will actually consider: superscores where the college's policy allows them,
+ * otherwise the best single sitting. A total typed without section scores counts as a single sitting.
+ */
+export function getConsideredScores(
+  history: TestHistory,
+  policy: { sat: boolean, act: boolean } = { sat: true, act: true }
+): ConsideredScores {
+  const bestSatSitting = Math.max(history.reportedSat, ...history.satSittings.map(s => s.readingWriting + s.math));
+  const bestActSitting = Math.max(history.reportedAct, ...history.actSittings.map(s =>
+    actComposite(s.english, s.math, s.reading, s.science)
+  ));
+
+  let sat = bestSatSitting;
+  let satSuperscored = false;
+  if (policy.sat && history.satSittings.length > 1) {
+    const superscore = Math.max(...history.satSittings.map(s => s.readingWriting)) +
+                       Math.max(...history.satSittings.map(s => s.math));
+    if (superscore > sat) {
+      sat = superscore;
+      satSuperscored = true;
+    }
+  }
+
+  let act = bestActSitting;
+  let actSuperscored = false;
+  if (policy.act && history.actSittings.length > 1) {
+    const superscore = actComposite(
+      Math.max(...history.actSittings.map(s => s.english)),
+      Math.max(...history.actSittings.map(s => s.math)),
+      Math.max(...history.actSittings.map(s => s.reading)),
+      Math.max(...history.actSittings.map(s => s.science))
+    );
+    if (superscore > act) {
+      act = superscore;
+      actSuperscored = true;
+    }
+  }
+
+  return { sat, act, satSuperscored, actSuperscored };
+}
+
+/**
+ * Pick the stronger of the two tests by converting the ACT to the SAT scale with the official concordance
+ */
+export function pickStrongerTest(sat: number, act: number): StrongerTest | undefined {
+  const actAsSat = concordActToSat(act);
+  if (sat <= 0 && actAsSat <= 0) return undefined;
+  if (actAsSat > sat) {
+    return { test: "ACT", score: act, satEquivalent: actAsSat };
+  }
+  return { test: "SAT", score: sat, satEquivalent: sat };
+}
+
+export function describeSuperscoring(
+  scores: ConsideredScores,
+  history: TestHistory,
+  collegeName: string,
+  policy: { sat: boolean, act: boolean }
+): string | null {
+  const notes: string[] = [];
+  if (scores.satSuperscored) {
+    notes.push(`superscores the SAT, so your ${scores.sat} superscore counts`);
+  } else if (!policy.sat && history.satSittings.length > 1) {
+    notes.push(`does not superscore the SAT, so only your best single sitting (${scores.sat}) counts`);
+  }
+  if (scores.actSuperscored) {
+    notes.push(`superscores the ACT, so your ${scores.act} superscore counts`);
+  } else if (!policy.act && history.actSittings.length > 1) {
+    notes.push(`does not superscore the ACT, so only your best single sitting (${scores.act}) counts`);
+  }
+  return notes.length > 0 ? `${collegeName} ${notes.join(" and ")}.` : null;
+}
+
+function comparePosition(score: number, range: ScoreRange): TestScoreComparison["position"] {
+  if (score < range.p25) return "below";
+  if (score > range.p75) return "above";
+  return "within";
+}
+
+// Where the score sits relative to the middle 50%: 0 at the 25th percentile, 1 at the 75th
+function relativePosition(score: number, range: ScoreRange): number {
+  const width = Math.max(range.p75 - range.p25, 1);
+  return (score - range.p25) / width;
+}
+
+/**
+ * Compare the student's SAT/ACT against a college's middle-50% ranges.
+ * The stronger test by concordance is used; the other test only when the college doesn't publish a range for it.
+ */
+export function compareTestScores(
+  sat: number,
+  act: number,
+  college: CollegeCatalogEntry | undefined
+): TestScoreComparison | undefined {
+  const stronger = pickStrongerTest(sat, act);
+  if (!college || !stronger) return undefined;
+
+  const tests: ("SAT" | "ACT")[] = stronger.test === "SAT" ? ["SAT", "ACT"] : ["ACT", "SAT"];
+  for (const test of tests) {
+    const score = test === "SAT" ? sat : act;
+    const range = test === "SAT" ? college.satRange : college.actRange;
+    if (score > 0 && range) {
+      return { test, score, ...range, position: comparePosition(score, range) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Log-odds adjustment to the admission model for where the score falls in the college's range.
+ * Scores inside the range move the estimate a little; scores outside it move it a lot.
+ */
+export function getTestScoreAdjustment(comparison: TestScoreComparison | undefined): number {
+  if (!comparison) return 0;
+
+  const adjustments = getScoringRules().chanceModel.testScores;
+  const relative = relativePosition(comparison.score, comparison);
+  if (comparison.position === "above") return adjustments.above;
+  if (comparison.position === "within") return (relative - 0.5) * adjustments.withinSlope;
+  // More than a full range-width below the 25th percentile is a serious gap
+  return relative < -1 ? adjustments.farBelow : adjustments.below;
+}
+
+export function describeTestScoreComparison(comparison: TestScoreComparison, collegeName: string): string {
+  const range = `${comparison.p25}–${comparison.p75}`;
+  switch (comparison.position) {
+    case "above":
+      return `Your ${comparison.test} of ${comparison.score} is above the middle 50% of admitted students at ${collegeName} (${range}).`;
+    case "within":
+      return `Your ${comparison.test} of ${comparison.score} falls within the middle 50% of admitted students at ${collegeName} (${range}).`;
+    default:
+      return `Your ${comparison.test} of ${comparison.score} is below the middle 50% of admitted students at ${collegeName} (${range}), which weighs against you here.`;
+  }
+}
+
+/**
+ * Decide whether to send the SAT/ACT to a college. Where submitting is optional, the model is run with and
+ * without the score and the student is told to submit only when it raises the estimate.
+ */
+export function adviseTestSubmission(
+  policy: TestPolicy,
+  collegeName: string,
+  hasScore: boolean,
+  submittedProbability: number,
+  withheldProbability: number
+): TestingAdvice {
+  if (policy === "blind") {
+    return {
+      policy,
+      recommendation: "not-considered",
+      reason: `${collegeName} is test-blind: scores aren't read even if you send them, so your grades and coursework carry the academic review.`,
+    };
+  }
+
+  if (!hasScore) {
+    if (policy === "required") {
+      return { policy, recommendation: "missing", reason: `${collegeName} requires the SAT or ACT; register for a test date well before its deadline.` };
+    }
+    if (policy === "flexible") {
+      return { policy, recommendation: "missing", reason: `${collegeName} requires testing but accepts AP or IB exam scores in place of the SAT or ACT; send those if you have them.` };
+    }
+    return { policy, recommendation: "withhold", reason: `${collegeName} is test-optional, so your application is reviewed without a score.` };
+  }
+
+  if (policy === "required") {
+    return { policy, recommendation: "submit", reason: `${collegeName} requires the SAT or ACT, so your score is part of every application.` };
+  }
+
+  const comparison = `about ${formatProbability(submittedProbability)} with your score versus ${formatProbability(withheldProbability)} without it`;
+  if (submittedProbability >= withheldProbability) {
+    return { policy, recommendation: "submit", reason: `Send your score to ${collegeName}: it strengthens your application (${comparison}).` };
+  }
+  const alternative = policy === "flexible"
+    ? `send AP or IB exam scores instead of the SAT or ACT`
+    : `apply test-optional`;
+  return { policy, recommendation: "withhold", reason: `Your score is below what ${collegeName} typically sees, so ${alternative} (${comparison}).` };
+}
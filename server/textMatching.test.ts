@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { containsPhrase, tokenize } from "./textMatching";
+
+describe("tokenize", () => {
+  it("lowercases and splits on anything but letters and digits", () => {
+    expect(tokenize("AP Calculus BC / AMC-12")).toEqual(["ap", "calculus", "bc", "amc", "12"]);
+  });
+
+  it("reads an ampersand as and", () => {
+    expect(tokenize("Arts & Crafts")).toEqual(tokenize("arts and crafts"));
+  });
+
+  it("stems inflections and derivations to the same word", () => {
+    expect(tokenize("nursing")).toEqual(tokenize("nurse"));
+    expect(tokenize("nurses")).toEqual(tokenize("nurse"));
+    expect(tokenize("political")).toEqual(tokenize("politics"));
+    expect(tokenize("politician")).toEqual(tokenize("politics"));
+    expect(tokenize("programming")).toEqual(tokenize("program"));
+    expect(tokenize("economy")).toEqual(tokenize("economics"));
+    expect(tokenize("robots")).toEqual(tokenize("robot"));
+  });
+
+  it("leaves short words alone", () => {
+    expect(tokenize("art club")).toEqual(["art", "club"]);
+  });
+});
+
+describe("containsPhrase", () => {
+  it("matches whole consecutive words", () => {
+    expect(containsPhrase(tokenize("FIRST Robotics Team captain"), tokenize("robotics team"))).toBe(true);
+    expect(containsPhrase(tokenize("Team for robotics"), tokenize("robotics team"))).toBe(false);
+  });
+
+  it("doesn't match inside a longer word", () => {
+    expect(containsPhrase(tokenize("Startup founder"), tokenize("art"))).toBe(false);
+    expect(containsPhrase(tokenize("Start a club"), tokenize("art"))).toBe(false);
+  });
+
+  it("never matches an empty or longer phrase", () => {
+    expect(containsPhrase(tokenize("debate"), [])).toBe(false);
+    expect(containsPhrase(tokenize("debate"), tokenize("debate team"))).toBe(false);
+  });
+});
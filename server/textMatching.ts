@@ -0,0 +1,48 @@
+// Word-level matching of free text (activity names, roles, award titles) against keyword phrases
+
+// Light suffix stemmer so "nursing", "nurse" and "nurses" (or "politics", "political", "politician")
+// compare equal. Derivations it can't relate ("chemistry" and "chemical") are listed as synonyms.
+function stemWord(word: string): string {
+  if (word.length <= 3) return word;
+  const hasVowel = (stem: string) => /[aeiouy]/.test(stem);
+  let stem = word;
+
+  // Inflections
+  if (stem.endsWith("ies")) stem = `${stem.slice(0, -3)}y`;
+  else if (stem.endsWith("ing") && stem.length > 5 && hasVowel(stem.slice(0, -3))) stem = stem.slice(0, -3);
+  else if (stem.endsWith("ed") && stem.length > 4 && hasVowel(stem.slice(0, -2))) stem = stem.slice(0, -2);
+  else if (stem.endsWith("s") && !/(ss|us|is)$/.test(stem)) stem = stem.slice(0, -1);
+
+  // Derivations ("political" -> "politic" -> "polit", "economy" -> "econom")
+  const suffix = ["ian", "al", "y"].find(suffix => stem.endsWith(suffix) && stem.length - suffix.length >= 4);
+  if (suffix) stem = stem.slice(0, -suffix.length);
+  if (stem.endsWith("ic") && stem.length >= 6) stem = stem.slice(0, -2);
+
+  // Trailing e and doubled consonants ("programming" -> "programm" -> "program")
+  if (stem.endsWith("e") && stem.length >= 4) stem = stem.slice(0, -1);
+  if (/([^aeiouslz])\1$/.test(stem)) stem = stem.slice(0, -1);
+  return stem;
+}
+
+/**
+ * Split text into stemmed words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(stemWord);
+}
+
+/**
+ * Whether the phrase appears in the tokens as consecutive words, so "art" doesn't match "start"
+ */
+export function containsPhrase(tokens: string[], phrase: string[]): boolean {
+  if (phrase.length === 0 || phrase.length > tokens.length) return false;
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((word, offset) => tokens[i + offset] === word)) return true;
+  }
+  return false;
+}
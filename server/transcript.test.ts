@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { academicInfoSchema, type TranscriptCourse } from "@shared/schema";
+import { flattenTranscript, summarizeTranscript, transcriptYearGpas } from "./transcript";
+
+const course = (name: string, gradeYear: TranscriptCourse["gradeYear"], level: TranscriptCourse["level"], grade: TranscriptCourse["grade"]): TranscriptCourse =>
+  ({ name, gradeYear, level, grade });
+
+const transcript: TranscriptCourse[] = [
+  course("English 9", "9", "regular", "B"),
+  course("Biology", "9", "honors", "A"),
+  course("AP World History", "10", "ap", "A-"),
+  course("Chemistry", "10", "regular", "A"),
+  course("IB Math HL", "11", "ib_hl", "B+"),
+  course("PE", "11", "regular", "P"),
+];
+
+describe("summarizeTranscript", () => {
+  it("computes the GPA, AP/IB count and rigor from the courses", () => {
+    expect(summarizeTranscript(transcript)).toEqual({
+      courseCount: 6,
+      // (3 + 4 + 3.7 + 4 + 3.3) / 5; the pass/fail course has no grade points
+      unweightedGpa: 3.6,
+      // Honors +0.5, AP and IB HL +1
+      weightedGpa: 4.1,
+      apCourses: 2,
+      honorsCourses: 1,
+      dualEnrollmentCourses: 0,
+      rigorShare: 0.42,
+      courseRigor: "high",
+    });
+  });
+
+  it("leaves the GPA unset when every course is pass/fail", () => {
+    const summary = summarizeTranscript([course("PE", "9", "regular", "P"), course("Health", "9", "regular", "P")]);
+    expect(summary.unweightedGpa).toBeUndefined();
+    expect(summary.weightedGpa).toBeUndefined();
+    expect(summary.courseRigor).toBe("low");
+  });
+
+  it("gives no weighted bonus for a failed course", () => {
+    const summary = summarizeTranscript([course("AP Physics", "11", "ap", "F"), course("AP Calculus", "11", "ap", "A")]);
+    expect(summary.unweightedGpa).toBe(2);
+    expect(summary.weightedGpa).toBe(2.5);
+  });
+});
+
+describe("transcriptYearGpas", () => {
+  it("averages the letter-graded courses of each grade year", () => {
+    expect(transcriptYearGpas(transcript)).toEqual([
+      { gradeYear: "9", term: "year", gpa: "3.50" },
+      { gradeYear: "10", term: "year", gpa: "3.85" },
+      { gradeYear: "11", term: "year", gpa: "3.30" },
+    ]);
+  });
+});
+
+describe("flattenTranscript", () => {
+  it("replaces the transcript with the fields it implies", () => {
+    const academics = academicInfoSchema.parse({ gpa: "", transcript });
+    expect(flattenTranscript(academics)).toMatchObject({
+      gpa: "3.60",
+      gpaScale: "4.0",
+      weightedGpa: "4.10",
+      apCourses: "2",
+      courseRigor: "high",
+      transcript: undefined,
+    });
+  });
+
+  it("keeps the self-reported GPA for a pass/fail-only transcript", () => {
+    const academics = academicInfoSchema.parse({ gpa: "92", gpaScale: "100", transcript: [course("PE", "9", "regular", "P")] });
+    expect(flattenTranscript(academics)).toMatchObject({ gpa: "92", gpaScale: "100", apCourses: "0" });
+  });
+
+  it("keeps term GPAs that were entered", () => {
+    const termGpas = [{ gradeYear: "9" as const, term: "year" as const, gpa: "3.90" }];
+    const academics = academicInfoSchema.parse({ gpa: "", transcript, termGpas });
+    expect(flattenTranscript(academics).termGpas).toEqual(termGpas);
+  });
+});
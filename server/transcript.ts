@@ -0,0 +1,72 @@
+import {
+  gradeYearSchema, type AcademicInfo, type TermGpa, type TranscriptCourse, type TranscriptSummary
+} from "@shared/schema";
+import { getScoringRules } from "./scoringRules";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * GPA, AP/IB count and rigor computed from a course-by-course transcript. Pass/fail courses count toward
+ * rigor but not toward the GPA, which is left unset when no course has a letter grade; weighted bonuses
+ * apply to passing grades only.
+ */
+export function summarizeTranscript(courses: TranscriptCourse[]): TranscriptSummary {
+  const rules = getScoringRules().academic.transcript;
+
+  const graded = courses.filter(course => course.grade !== "P");
+  const points = graded.map(course => rules.gradePoints[course.grade] ?? 0);
+  const weightedPoints = graded.map((course, index) =>
+    points[index] + (points[index] > 0 ? rules.levels[course.level].bonus : 0));
+
+  const rigorShare = courses.length > 0
+    ? courses.reduce((sum, course) => sum + rules.levels[course.level].rigor, 0) / courses.length
+    : 0;
+  const courseRigor = (rules.rigor.find(row => rigorShare >= row.min) ?? rules.rigor[rules.rigor.length - 1]).rigor;
+
+  return {
+    courseCount: courses.length,
+    unweightedGpa: graded.length > 0 ? round2(average(points)) : undefined,
+    weightedGpa: graded.length > 0 ? round2(average(weightedPoints)) : undefined,
+    apCourses: courses.filter(course => ["ap", "ib_hl", "ib_sl"].includes(course.level)).length,
+    honorsCourses: courses.filter(course => course.level === "honors").length,
+    dualEnrollmentCourses: courses.filter(course => course.level === "dual_enrollment").length,
+    rigorShare: round2(rigorShare),
+    courseRigor,
+  };
+}
+
+/**
+ * Unweighted GPA for each grade year with letter-graded courses, in order, as full-year term GPAs on the 4.0 scale
+ */
+export function transcriptYearGpas(courses: TranscriptCourse[]): TermGpa[] {
+  const gradePoints = getScoringRules().academic.transcript.gradePoints;
+  return gradeYearSchema.options.flatMap(gradeYear => {
+    const graded = courses.filter(course => course.gradeYear === gradeYear && course.grade !== "P");
+    if (graded.length === 0) return [];
+    return [{ gradeYear, term: "year" as const, gpa: round2(average(graded.map(course => gradePoints[course.grade] ?? 0))).toFixed(2) }];
+  });
+}
+
+/**
+ * Replace a transcript with the self-reported fields it implies, so the fields can be edited directly
+ * (as the what-if simulator does) without the transcript overriding them. Its grade-year GPAs become term GPAs,
+ * unless term GPAs were entered, so the grade trend is kept.
+ */
+export function flattenTranscript(academics: AcademicInfo): AcademicInfo {
+  if (!academics.transcript?.length) return { ...academics };
+  const summary = summarizeTranscript(academics.transcript);
+  return {
+    ...academics,
+    // A pass/fail-only transcript keeps the self-reported GPA
+    ...(summary.unweightedGpa !== undefined && {
+      gpa: summary.unweightedGpa.toFixed(2),
+      gpaScale: "4.0" as const,
+      weightedGpa: summary.weightedGpa?.toFixed(2),
+    }),
+    apCourses: String(summary.apCourses),
+    courseRigor: summary.courseRigor,
+    transcript: undefined,
+    termGpas: academics.termGpas?.length ? academics.termGpas : transcriptYearGpas(academics.transcript),
+  };
+}
@@ -0,0 +1,83 @@
+import {
+  type AdmissionData, type AnalysisResult, type AwardLevel, type WhatIfChanges, type WhatIfResult
+} from "@shared/schema";
+import { recognizeAward } from "./awardKnowledgeBase";
+import { flattenTranscript } from "./transcript";
+
+const AWARD_LEVELS: AwardLevel[] = ["school", "district", "state", "national", "international"];
+
+/**
+ * Apply what-if changes to a profile. A changed test score replaces that test's sittings, so the
+ * scenario is evaluated on exactly the score chosen rather than an older, higher superscore.
+ */
+export function applyWhatIfChanges(data: AdmissionData, changes: WhatIfChanges): AdmissionData {
+  // Edited figures replace what a transcript would compute
+  const academics = changes.gpa !== undefined || changes.apCourses !== undefined
+    ? flattenTranscript(data.academics)
+    : { ...data.academics };
+  if (changes.gpa !== undefined) academics.gpa = String(changes.gpa);
+  if (changes.sat !== undefined) {
+    academics.sat = String(changes.sat);
+    academics.satSittings = [];
+  }
+  if (changes.act !== undefined) {
+    academics.act = String(changes.act);
+    academics.actSittings = [];
+  }
+  if (changes.apCourses !== undefined) academics.apCourses = String(changes.apCourses);
+
+  let honorsAwards = data.honorsAwards.filter(award => award.title.trim() !== "");
+  if (changes.topAwardLevel) {
+    const level = changes.topAwardLevel;
+    if (honorsAwards.length === 0) {
+      honorsAwards = [{ title: "New award", level, year: String(new Date().getFullYear()) }];
+    } else {
+      // Raise (or lower) the strongest award to the chosen level
+      const top = honorsAwards.reduce((best, award, index) =>
+        AWARD_LEVELS.indexOf(award.level) > AWARD_LEVELS.indexOf(honorsAwards[best].level) ? index : best, 0);
+      // A recognized competition always counts at its known level, so the scenario treats it as a new award
+      honorsAwards = honorsAwards.map((award, index) => index !== top ? award
+        : recognizeAward(award).knownAs ? { title: "New award", level, year: award.year } : { ...award, level });
+    }
+  }
+
+  return { ...data, academics, honorsAwards };
+}
+
+function getGrade(result: Pick<AnalysisResult, "assessmentSections">, titlePrefix: string): string {
+  return result.assessmentSections?.find(section => section.title.startsWith(titlePrefix))?.grade || "";
+}
+
+/**
+ * Per-college difference between the base analysis and the scenario. Both analyses evaluate the same
+ * college list in the same order.
+ */
+export function compareScenarios(
+  base: Pick<AnalysisResult, "collegeChances" | "listOutcome" | "assessmentSections">,
+  scenario: Pick<AnalysisResult, "collegeChances" | "listOutcome" | "assessmentSections">
+): WhatIfResult {
+  return {
+    colleges: base.collegeChances.map((college, index) => {
+      const changed = scenario.collegeChances[index];
+      const baseProbability = college.probability ?? 0;
+      const probability = changed.probability ?? 0;
+      return {
+        name: college.name,
+        collegeId: college.collegeId,
+        baseProbability,
+        probability,
+        change: probability - baseProbability,
+        baseCategory: college.category,
+        category: changed.category,
+      };
+    }),
+    probabilityAtLeastOne: base.listOutcome && scenario.listOutcome ? {
+      base: base.listOutcome.probabilityAtLeastOne,
+      scenario: scenario.listOutcome.probabilityAtLeastOne,
+    } : undefined,
+    grades: {
+      academic: { base: getGrade(base, "Academic"), scenario: getGrade(scenario, "Academic") },
+      awards: { base: getGrade(base, "Honors"), scenario: getGrade(scenario, "Honors") },
+    },
+  };
+}
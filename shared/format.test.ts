@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { formatProbability, formatProbabilityRange } from "./format";
+
+describe("formatProbability", () => {
+  it("rounds to whole percentages", () => {
+    expect(formatProbability(0.456)).toBe("46%");
+    expect(formatProbability(0.01)).toBe("1%");
+  });
+
+  it("shows one decimal below 1%", () => {
+    expect(formatProbability(0.0042)).toBe("0.4%");
+    expect(formatProbability(0.001)).toBe("0.1%");
+  });
+
+  it("never claims certainty either way", () => {
+    expect(formatProbability(0)).toBe("<0.1%");
+    expect(formatProbability(0.0004)).toBe("<0.1%");
+    expect(formatProbability(0.995)).toBe(">99%");
+    expect(formatProbability(1)).toBe(">99%");
+  });
+});
+
+describe("formatProbabilityRange", () => {
+  it("joins the two ends", () => {
+    expect(formatProbabilityRange(0.12, 0.34)).toBe("12–34%");
+  });
+
+  it("collapses a range whose ends format the same", () => {
+    expect(formatProbabilityRange(0.0001, 0.0003)).toBe("<0.1%");
+    expect(formatProbabilityRange(0.995, 0.999)).toBe(">99%");
+  });
+});
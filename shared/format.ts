@@ -0,0 +1,22 @@
+// Formatting shared by the server's explanations and the results screens, so both show the same figures
+
+/**
+ * Format a probability as a whole percentage, with one decimal below 1% so the most selective colleges
+ * still read differently, never claiming certainty either way
+ */
+export function formatProbability(probability: number): string {
+  const percent = probability * 100;
+  if (percent < 0.1) return "<0.1%";
+  if (percent < 0.95) return `${percent.toFixed(1)}%`;
+  if (percent > 99) return ">99%";
+  return `${Math.round(percent)}%`;
+}
+
+/**
+ * A range of probabilities, collapsed to one value when both ends format the same ("<0.1%")
+ */
+export function formatProbabilityRange(lower: number, upper: number): string {
+  const lowerText = formatProbability(lower);
+  const upperText = formatProbability(upper);
+  return lowerText === upperText ? upperText : `${lowerText.replace("%", "")}–${upperText}`;
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { collegeSelectionSchema } from "./schema";
+
+describe("collegeSelectionSchema", () => {
+  it("reads a plain name from a list saved before colleges had IDs", () => {
+    expect(collegeSelectionSchema.parse("Penn State")).toEqual({ name: "Penn State" });
+  });
+
+  it("keeps the catalog ID and round of a picked college", () => {
+    expect(collegeSelectionSchema.parse({ id: "mit", name: "Massachusetts Institute of Technology", round: "EA" }))
+      .toEqual({ id: "mit", name: "Massachusetts Institute of Technology", round: "EA" });
+  });
+
+  it("rejects a college without a name", () => {
+    expect(collegeSelectionSchema.safeParse({ id: "mit" }).success).toBe(false);
+    expect(collegeSelectionSchema.safeParse(42).success).toBe(false);
+  });
+});
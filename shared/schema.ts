@@ -54,14 +54,181 @@ export type VerificationData = z.infer<typeof verificationSchema>;
 export type User = typeof users.$inferSelect;
 export type SavedResult = typeof savedResults.$inferSelect;
 
+// Form inputs are strings; section scores must still parse to a number in the test's range
+const sectionScore = (label: string, min: number, max: number) =>
+  z.string().refine((value) => {
+    const score = Number(value);
+    return value.trim() !== "" && Number.isInteger(score) && score >= min && score <= max;
+  }, `${label} must be a whole number from ${min} to ${max}`);
+
+// Schema for a single SAT sitting with section scores
+export const satSittingSchema = z.object({
+  date: z.string().optional(),
+  readingWriting: sectionScore("Reading & Writing", 200, 800),
+  math: sectionScore("Math", 200, 800),
+});
+
+// Schema for a single ACT sitting with section scores
+export const actSittingSchema = z.object({
+  date: z.string().optional(),
+  english: sectionScore("English", 1, 36),
+  math: sectionScore("Math", 1, 36),
+  reading: sectionScore("Reading", 1, 36),
+  science: sectionScore("Science", 1, 36),
+});
+
+// GPA scales students can report in; the server converts everything to a 4.0 unweighted equivalent
+export const gpaScaleSchema = z.enum(["4.0", "5.0", "6.0", "100", "ib", "10", "20"]);
+
+export const GPA_SCALE_RANGES: Record<z.infer<typeof gpaScaleSchema>, { min: number, max: number }> = {
+  "4.0": { min: 0, max: 4.0 },
+  "5.0": { min: 0, max: 5.0 },
+  "6.0": { min: 0, max: 6.0 },
+  "100": { min: 0, max: 100 },
+  "ib": { min: 1, max: 7 },
+  "10": { min: 0, max: 10 },
+  "20": { min: 0, max: 20 },
+};
+
+export const GPA_SCALE_LABELS: Record<z.infer<typeof gpaScaleSchema>, string> = {
+  "4.0": "4.0 unweighted",
+  "5.0": "5.0 weighted",
+  "6.0": "6.0 weighted",
+  "100": "100-point",
+  "ib": "IB 1–7",
+  "10": "10-point",
+  "20": "20-point",
+};
+
+export const courseRigorSchema = z.enum(["low", "medium", "high", "very_high"]);
+
+// Transcript mode: courses entered one by one, from which the GPA, AP count and rigor are computed
+// (see server/transcript.ts)
+export const courseLevelSchema = z.enum(["regular", "honors", "ap", "ib_hl", "ib_sl", "dual_enrollment"]);
+
+export const COURSE_LEVEL_LABELS: Record<z.infer<typeof courseLevelSchema>, string> = {
+  regular: "Regular",
+  honors: "Honors",
+  ap: "AP",
+  ib_hl: "IB HL",
+  ib_sl: "IB SL",
+  dual_enrollment: "Dual enrollment",
+};
+
+// P (pass) counts toward rigor but not toward the GPA
+export const courseGradeSchema = z.enum(["A+", "A", "A-", "B+", "B", "B-", "C+", "C", "C-", "D+", "D", "D-", "F", "P"]);
+
+export const gradeYearSchema = z.enum(["9", "10", "11", "12"]);
+
+export const transcriptCourseSchema = z.object({
+  name: z.string().min(1, "Course name is required"),
+  gradeYear: gradeYearSchema,
+  level: courseLevelSchema,
+  grade: courseGradeSchema,
+});
+
+export const transcriptSummarySchema = z.object({
+  courseCount: z.number().int(),
+  // On the 4.0 scale, from courses with a letter grade; unset when every course is pass/fail
+  unweightedGpa: z.number().optional(),
+  weightedGpa: z.number().optional(),
+  // AP and IB courses, like the self-reported count
+  apCourses: z.number().int(),
+  honorsCourses: z.number().int(),
+  dualEnrollmentCourses: z.number().int(),
+  // 0-1, how much of the schedule is advanced
+  rigorShare: z.number().min(0).max(1),
+  courseRigor: courseRigorSchema,
+});
+
+export const transcriptSummaryRequestSchema = z.object({
+  transcript: z.array(transcriptCourseSchema).min(1, "Add at least one course"),
+});
+
+export const GRADE_YEAR_LABELS: Record<z.infer<typeof gradeYearSchema>, string> = {
+  "9": "freshman year",
+  "10": "sophomore year",
+  "11": "junior year",
+  "12": "senior year",
+};
+
+// GPA for a whole grade year or one semester of it, on the student's GPA scale (see server/gradeTrend.ts)
+export const gpaTermSchema = z.enum(["year", "fall", "spring"]);
+
+export const GPA_TERM_LABELS: Record<z.infer<typeof gpaTermSchema>, string> = {
+  year: "Full year",
+  fall: "Fall semester",
+  spring: "Spring semester",
+};
+
+export const termGpaSchema = z.object({
+  gradeYear: gradeYearSchema,
+  term: gpaTermSchema,
+  gpa: z.string().min(1, "GPA is required"),
+});
+
+export const gradeTrendSchema = z.object({
+  // Term GPAs entered directly, or grade-year GPAs computed from the transcript
+  source: z.enum(["terms", "transcript"]),
+  // In order, on the 4.0 scale
+  terms: z.array(z.object({
+    label: z.string(),
+    gpa: z.number(),
+  })),
+  direction: z.enum(["upward", "downward", "steady"]),
+  // Last term minus first
+  change: z.number(),
+  // A term well below the one before it that the next term recovered from
+  dip: z.object({
+    label: z.string(),
+    gpa: z.number(),
+    drop: z.number(),
+  }).optional(),
+});
+
 // Schema for academic information
 export const academicInfoSchema = z.object({
-  gpa: z.string().min(1, "GPA is required"),
+  // Required unless a transcript with letter grades is entered
+  gpa: z.string(),
+  gpaScale: gpaScaleSchema.default("4.0"),
   weightedGpa: z.string().optional(),
   sat: z.string().optional(),
   act: z.string().optional(),
+  satSittings: z.array(satSittingSchema).optional(),
+  actSittings: z.array(actSittingSchema).optional(),
   apCourses: z.string().optional(),
-  courseRigor: z.enum(["low", "medium", "high", "very_high"]).default("medium"),
+  courseRigor: courseRigorSchema.default("medium"),
+  // When present, the GPA, AP count and rigor are computed from the courses
+  transcript: z.array(transcriptCourseSchema).optional(),
+  // GPA by year or semester, for the grade trend
+  termGpas: z.array(termGpaSchema).optional(),
+}).superRefine((academics, ctx) => {
+  if (academics.gpa.trim() === "" && !academics.transcript?.some(course => course.grade !== "P")) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["gpa"],
+      message: "GPA is required",
+    });
+  }
+  const gpa = Number(academics.gpa);
+  const range = GPA_SCALE_RANGES[academics.gpaScale];
+  if (academics.gpa.trim() !== "" && (Number.isNaN(gpa) || gpa < range.min || gpa > range.max)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["gpa"],
+      message: `GPA must be a number from ${range.min} to ${range.max} on the selected scale`,
+    });
+  }
+  academics.termGpas?.forEach((term, index) => {
+    const termGpa = Number(term.gpa);
+    if (term.gpa.trim() !== "" && (Number.isNaN(termGpa) || termGpa < range.min || termGpa > range.max)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["termGpas", index, "gpa"],
+        message: `GPA must be a number from ${range.min} to ${range.max} on the selected scale`,
+      });
+    }
+  });
 });
 
 // Schema for extracurricular activities
@@ -70,41 +237,415 @@ export const extracurricularSchema = z.object({
   role: z.string().optional(),
   yearsInvolved: z.string().optional(),
   hoursPerWeek: z.string().optional(),
+  // As on the Common App; a school year when not given
+  weeksPerYear: z.string().optional(),
   description: z.string().optional(),
 });
 
+// Time put into an activity, read from the free-text fields (see server/commitment.ts)
+export const activityCommitmentSchema = z.object({
+  years: z.number().min(0),
+  hoursPerWeek: z.number().min(0),
+  weeksPerYear: z.number().min(0),
+  totalHours: z.number().min(0),
+});
+
+// Impact tier of an activity, from distinction, scope and commitment (see server/activityTiers.ts);
+// Tier 1 is the rarest and strongest
+export const activityTierLevelSchema = z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4)]);
+
+export const ACTIVITY_TIER_LABELS: Record<z.infer<typeof activityTierLevelSchema>, string> = {
+  1: "Exceptional",
+  2: "Distinguished",
+  3: "Solid",
+  4: "Participation",
+};
+
+export const activityTierSchema = z.object({
+  activity: z.string(),
+  tier: activityTierLevelSchema,
+  reason: z.string(),
+  commitment: activityCommitmentSchema,
+});
+
+export const activityTiersRequestSchema = z.object({
+  extracurriculars: z.array(extracurricularSchema),
+});
+
+export const awardLevelSchema = z.enum(["school", "district", "state", "national", "international"]);
+
+export const AWARD_LEVEL_LABELS: Record<z.infer<typeof awardLevelSchema>, string> = {
+  school: "School",
+  district: "District/Regional",
+  state: "State",
+  national: "National",
+  international: "International",
+};
+
 // Schema for honors and awards
 export const honorAwardSchema = z.object({
   title: z.string().min(1, "Title is required"),
-  level: z.enum(["school", "district", "state", "national", "international"]).default("school"),
+  level: awardLevelSchema.default("school"),
   year: z.string().optional(),
 });
 
+// An award checked against the award knowledge base (see server/awardKnowledgeBase.ts)
+export const awardRecognitionSchema = z.object({
+  title: z.string(),
+  enteredLevel: awardLevelSchema,
+  // The level the awards grade uses: the known level of a recognized award, otherwise the entered one
+  level: awardLevelSchema,
+  // 0-1, how selective the award is
+  prestige: z.number().min(0).max(1),
+  // Name (and stage) of the recognized competition or program
+  knownAs: z.string().optional(),
+  // A likely level for an unrecognized award whose title suggests a different one; not applied
+  suggestedLevel: awardLevelSchema.optional(),
+  note: z.string().optional(),
+});
+
+export const awardRecognitionRequestSchema = z.object({
+  honorsAwards: z.array(honorAwardSchema),
+});
+
+export const applicationRoundSchema = z.enum(["ED", "EA", "REA", "RD", "rolling"]);
+
+export const APPLICATION_ROUND_LABELS: Record<z.infer<typeof applicationRoundSchema>, string> = {
+  ED: "Early Decision",
+  EA: "Early Action",
+  REA: "Restrictive Early Action",
+  RD: "Regular Decision",
+  rolling: "Rolling Admission",
+};
+
+// Schema for a college on the student's list: the catalog ID (when picked from search) plus the display name.
+// Lists saved before colleges carried an ID hold plain names, which are read as { name }.
+export const collegeSelectionSchema = z.preprocess(
+  (college) => typeof college === "string" ? { name: college } : college,
+  z.object({
+    id: z.string().optional(),
+    name: z.string(),
+    // Application round; regular decision when not set
+    round: applicationRoundSchema.optional(),
+  }),
+);
+
+export const US_STATES: Record<string, string> = {
+  AL: "Alabama",
+  AK: "Alaska",
+  AZ: "Arizona",
+  AR: "Arkansas",
+  CA: "California",
+  CO: "Colorado",
+  CT: "Connecticut",
+  DE: "Delaware",
+  DC: "District of Columbia",
+  FL: "Florida",
+  GA: "Georgia",
+  HI: "Hawaii",
+  ID: "Idaho",
+  IL: "Illinois",
+  IN: "Indiana",
+  IA: "Iowa",
+  KS: "Kansas",
+  KY: "Kentucky",
+  LA: "Louisiana",
+  ME: "Maine",
+  MD: "Maryland",
+  MA: "Massachusetts",
+  MI: "Michigan",
+  MN: "Minnesota",
+  MS: "Mississippi",
+  MO: "Missouri",
+  MT: "Montana",
+  NE: "Nebraska",
+  NV: "Nevada",
+  NH: "New Hampshire",
+  NJ: "New Jersey",
+  NM: "New Mexico",
+  NY: "New York",
+  NC: "North Carolina",
+  ND: "North Dakota",
+  OH: "Ohio",
+  OK: "Oklahoma",
+  OR: "Oregon",
+  PA: "Pennsylvania",
+  PR: "Puerto Rico",
+  RI: "Rhode Island",
+  SC: "South Carolina",
+  SD: "South Dakota",
+  TN: "Tennessee",
+  TX: "Texas",
+  UT: "Utah",
+  VT: "Vermont",
+  VA: "Virginia",
+  WA: "Washington",
+  WV: "West Virginia",
+  WI: "Wisconsin",
+  WY: "Wyoming",
+};
+
+// Where the student lives: a US state, or the name of another country (country "US" for United States residents)
+export const homeSchema = z.object({
+  country: z.string().min(1, "Country is required").default("US"),
+  state: z.string().optional(),
+}).superRefine((home, ctx) => {
+  if (home.country === "US" && !(home.state && Object.hasOwn(US_STATES, home.state))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Select your home state", path: ["state"] });
+  }
+});
+
+// What the student is looking for in a college, used to rank recommendations
+export const collegePreferencesSchema = z.object({
+  control: z.enum(["any", "public", "private"]).default("any"),
+  focus: z.enum(["any", "stem", "liberal-arts", "comprehensive"]).default("any"),
+  // Two-letter state codes
+  states: z.array(z.string().length(2)).default([]),
+});
+
+// Optional context that colleges weigh as "hooks". It is only used when the student consents,
+// and it is stripped before requests are stored for anonymized analytics.
+export const applicantContextSchema = z.object({
+  consent: z.boolean().default(false),
+  firstGeneration: z.boolean().default(false),
+  pellEligible: z.boolean().default(false),
+  underrepresentedMinority: z.boolean().default(false),
+  // Colleges where the hook applies, by catalog ID (or name for colleges not in the catalog)
+  legacyColleges: z.array(z.string()).default([]),
+  recruitedAthleteColleges: z.array(z.string()).default([]),
+  facultyChildColleges: z.array(z.string()).default([]),
+});
+
+export const schoolTypeSchema = z.enum(["public", "charter", "magnet", "private", "religious", "boarding", "international", "homeschool"]);
+
+export const SCHOOL_TYPE_LABELS: Record<z.infer<typeof schoolTypeSchema>, string> = {
+  public: "Public",
+  charter: "Charter",
+  magnet: "Magnet or selective public",
+  private: "Independent private",
+  religious: "Religious",
+  boarding: "Boarding",
+  international: "International school abroad",
+  homeschool: "Homeschool",
+};
+
+// The student's high school as its counselor's school profile describes it, so rigor and rank are read
+// against what was available (see server/schoolContext.ts)
+export const schoolContextSchema = z.object({
+  type: schoolTypeSchema.optional(),
+  // AP and IB courses the school offers
+  advancedCoursesOffered: z.string().optional(),
+  // Whether the school reports class rank; unset when the student doesn't know
+  ranks: z.boolean().optional(),
+  classRank: z.string().optional(),
+  classSize: z.string().optional(),
+  // 1 for the top 10%, for schools that report deciles rather than an exact rank
+  rankDecile: z.string().optional(),
+});
+
+export const schoolContextSummarySchema = z.object({
+  coursesOffered: z.number().int().optional(),
+  // Share of the offered AP/IB courses taken, 0-1
+  availableShare: z.number().min(0).max(1).optional(),
+  tookAllAvailable: z.boolean(),
+  // Top X% of the class, from the exact rank or the decile
+  rankTopPercent: z.number().optional(),
+});
+
 // Full admission form data schema
 export const admissionDataSchema = z.object({
   academics: academicInfoSchema,
   extracurriculars: z.array(extracurricularSchema),
   honorsAwards: z.array(honorAwardSchema),
-  colleges: z.array(z.string()),
+  colleges: z.array(collegeSelectionSchema),
   major: z.string().min(1, "Major is required"),
+  // Second-choice major, compared against the first choice at colleges that admit by program
+  alternateMajor: z.string().optional(),
+  home: homeSchema.optional(),
+  // Superseded by home; kept so assessments saved before it existed still evaluate
   residency: z.enum(["in-state", "out-of-state", "international"]).optional(),
+  preferences: collegePreferencesSchema.optional(),
+  context: applicantContextSchema.optional(),
+  school: schoolContextSchema.optional(),
+}).superRefine((data, ctx) => {
+  // Early Decision is binding and restrictive early action excludes other early plans
+  const roundIndexes = (round: string) => data.colleges
+    .map((college, index) => college.round === round ? index : -1)
+    .filter(index => index !== -1);
+  const earlyDecision = roundIndexes("ED");
+  const restrictive = roundIndexes("REA");
+
+  earlyDecision.slice(1).forEach(index => ctx.addIssue({
+    code: z.ZodIssueCode.custom,
+    path: ["colleges", index, "round"],
+    message: "You can only apply Early Decision to one college because ED is binding",
+  }));
+  restrictive.slice(1).forEach(index => ctx.addIssue({
+    code: z.ZodIssueCode.custom,
+    path: ["colleges", index, "round"],
+    message: "You can only apply Restrictive Early Action to one college",
+  }));
+  if (restrictive.length > 0) {
+    earlyDecision.forEach(index => ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["colleges", index, "round"],
+      message: "Restrictive Early Action doesn't allow an Early Decision application elsewhere",
+    }));
+  }
 });
 
+export type GpaScale = z.infer<typeof gpaScaleSchema>;
+export type SatSitting = z.infer<typeof satSittingSchema>;
+export type ActSitting = z.infer<typeof actSittingSchema>;
 export type AcademicInfo = z.infer<typeof academicInfoSchema>;
+export type CourseRigor = z.infer<typeof courseRigorSchema>;
+export type CourseLevel = z.infer<typeof courseLevelSchema>;
+export type CourseGrade = z.infer<typeof courseGradeSchema>;
+export type TranscriptCourse = z.infer<typeof transcriptCourseSchema>;
+export type TranscriptSummary = z.infer<typeof transcriptSummarySchema>;
+export type TermGpa = z.infer<typeof termGpaSchema>;
+export type GradeTrend = z.infer<typeof gradeTrendSchema>;
+export type SchoolType = z.infer<typeof schoolTypeSchema>;
+export type SchoolContext = z.infer<typeof schoolContextSchema>;
+export type SchoolContextSummary = z.infer<typeof schoolContextSummarySchema>;
 export type Extracurricular = z.infer<typeof extracurricularSchema>;
 export type HonorAward = z.infer<typeof honorAwardSchema>;
+export type AwardRecognition = z.infer<typeof awardRecognitionSchema>;
+export type ApplicationRound = z.infer<typeof applicationRoundSchema>;
+export type CollegeSelection = z.infer<typeof collegeSelectionSchema>;
+export type Home = z.infer<typeof homeSchema>;
+export type CollegePreferences = z.infer<typeof collegePreferencesSchema>;
+export type ApplicantContext = z.infer<typeof applicantContextSchema>;
 export type AdmissionData = z.infer<typeof admissionDataSchema>;
 
 // Schema for the API response from DeepSeek
+// Where a student's test score falls relative to a college's middle 50% of admitted students
+export const testScoreComparisonSchema = z.object({
+  test: z.enum(["SAT", "ACT"]),
+  score: z.number(),
+  p25: z.number(),
+  p75: z.number(),
+  position: z.enum(["below", "within", "above"]),
+});
+
+export const collegeCategorySchema = z.enum(["reach", "target", "likely", "safety"]);
+
+// How a college treats SAT/ACT scores. Test-flexible colleges require a score but accept AP or IB exams in place of the SAT/ACT.
+export const testPolicySchema = z.enum(["required", "optional", "blind", "flexible"]);
+
+export const TEST_POLICY_LABELS: Record<z.infer<typeof testPolicySchema>, string> = {
+  required: "Test required",
+  optional: "Test optional",
+  blind: "Test blind",
+  flexible: "Test flexible",
+};
+
+// Whether the student should send their SAT/ACT to a college, decided per college from its policy
+export const testingAdviceSchema = z.object({
+  policy: testPolicySchema,
+  recommendation: z.enum(["submit", "withhold", "not-considered", "missing"]),
+  reason: z.string(),
+});
+
+// Terms of the logistic admission model (server/chanceModel.ts), each in log-odds
+export const chanceFactorSchema = z.enum([
+  "base", "academic", "testScores", "extracurricular", "awards", "residency", "round", "program", "hooks", "fit",
+]);
+
+export const CHANCE_FACTOR_LABELS: Record<z.infer<typeof chanceFactorSchema>, string> = {
+  base: "College admit rate",
+  academic: "Academics",
+  testScores: "Test scores",
+  extracurricular: "Extracurriculars",
+  awards: "Honors & awards",
+  residency: "Residency",
+  round: "Application round",
+  program: "Major/program",
+  hooks: "Additional context",
+  fit: "Institutional fit",
+};
+
+export const chanceFactorContributionSchema = z.object({
+  factor: chanceFactorSchema,
+  logOdds: z.number(),
+});
+
 export const collegeChanceSchema = z.object({
   name: z.string(),
+  collegeId: z.string().optional(),
+  acceptanceRate: z.number().optional(),
   chance: z.string(),
+  // Model estimate and 80% interval, as fractions from 0 to 1
+  probability: z.number().min(0).max(1).optional(),
+  lower: z.number().min(0).max(1).optional(),
+  upper: z.number().min(0).max(1).optional(),
+  // How each factor moved the estimate; the base is the log-odds of the college's admit rate
+  factors: z.array(chanceFactorContributionSchema).optional(),
   color: z.string(),
   collegeTier: z.string().optional(),
   tierColor: z.string().optional(),
+  testScoreComparison: testScoreComparisonSchema.optional(),
+  testingAdvice: testingAdviceSchema.optional(),
+  // Program the student's major is admitted to, where the college admits by program
+  program: z.string().optional(),
+  // The same application with the alternate major, where it changes the estimate
+  alternateMajor: z.object({
+    major: z.string(),
+    program: z.string().optional(),
+    probability: z.number().min(0).max(1),
+  }).optional(),
+  category: collegeCategorySchema.optional(),
+  round: applicationRoundSchema.optional(),
   feedback: z.string(),
 });
 
+// Outcome of the whole college list, simulated from the per-college probabilities
+export const listOutcomeSchema = z.object({
+  probabilityAtLeastOne: z.number().min(0).max(1),
+  expectedAdmits: z.number().min(0),
+  // Null when the list has no reach schools
+  probabilityAtLeastOneReach: z.number().min(0).max(1).nullable(),
+  collegeCount: z.number().int(),
+  reachCount: z.number().int(),
+  correlation: z.number(),
+  trials: z.number().int(),
+});
+
+// A catalog college suggested to fill a gap in the list
+export const collegeSuggestionSchema = z.object({
+  collegeId: z.string(),
+  name: z.string(),
+  category: collegeCategorySchema,
+  probability: z.number().min(0).max(1),
+});
+
+// A catalog college ranked by fit for the student
+export const collegeRecommendationSchema = z.object({
+  collegeId: z.string(),
+  name: z.string(),
+  state: z.string(),
+  control: z.enum(["public", "private"]),
+  acceptanceRate: z.number(),
+  category: collegeCategorySchema,
+  probability: z.number().min(0).max(1),
+  fitScore: z.number().min(0).max(1),
+  reasons: z.array(z.string()),
+});
+
+// Reach/target/likely/safety mix of the whole list
+export const listBalanceSchema = z.object({
+  counts: z.object({
+    reach: z.number().int(),
+    target: z.number().int(),
+    likely: z.number().int(),
+    safety: z.number().int(),
+  }),
+  balanced: z.boolean(),
+  summary: z.string(),
+  advice: z.array(z.string()),
+  suggestions: z.array(collegeSuggestionSchema),
+});
+
 export const assessmentSectionSchema = z.object({
   title: z.string(),
   grade: z.string().optional(),
@@ -117,11 +658,612 @@ export const analysisResultSchema = z.object({
   overallAssessment: z.string(),
   assessmentSections: z.array(assessmentSectionSchema).optional(),
   collegeChances: z.array(collegeChanceSchema),
+  listOutcome: listOutcomeSchema.optional(),
+  listBalance: listBalanceSchema.optional(),
+  applicationPlanWarnings: z.array(z.string()).optional(),
   improvementPlan: z.array(z.string()),
+  // Impact tier of each activity, in the order entered
+  activityTiers: z.array(activityTierSchema).optional(),
+  // Level and prestige of each award, in the order entered
+  awardRecognitions: z.array(awardRecognitionSchema).optional(),
+  // GPA, AP count and rigor computed from the transcript, in transcript mode
+  transcriptSummary: transcriptSummarySchema.optional(),
+  // Trajectory across terms, when term GPAs or a transcript spanning several years were given
+  gradeTrend: gradeTrendSchema.optional(),
+  // Rigor and rank against what the student's school offers, when the school was described
+  schoolContext: schoolContextSummarySchema.optional(),
+  catalogVersion: z.string().optional(),
+  // Version of the scoring rules that produced the grades and chances
+  rulesVersion: z.string().optional(),
   isFallbackMode: z.boolean().optional(),
   fallbackNote: z.string().nullable().optional(),
 });
 
+// Hypothetical changes for the what-if simulator; anything omitted stays as the student entered it
+export const whatIfChangesSchema = z.object({
+  // On the student's own GPA scale
+  gpa: z.number().min(0).optional(),
+  sat: z.number().int().min(400).max(1600).optional(),
+  act: z.number().int().min(1).max(36).optional(),
+  apCourses: z.number().int().min(0).max(30).optional(),
+  // The level the student's strongest award reaches
+  topAwardLevel: awardLevelSchema.optional(),
+});
+
+export const whatIfRequestSchema = z.object({
+  base: admissionDataSchema,
+  changes: whatIfChangesSchema,
+});
+
+export const whatIfCollegeSchema = z.object({
+  name: z.string(),
+  collegeId: z.string().optional(),
+  baseProbability: z.number().min(0).max(1),
+  probability: z.number().min(0).max(1),
+  // Scenario minus base, as a fraction
+  change: z.number(),
+  baseCategory: collegeCategorySchema.optional(),
+  category: collegeCategorySchema.optional(),
+});
+
+export const whatIfResultSchema = z.object({
+  colleges: z.array(whatIfCollegeSchema),
+  probabilityAtLeastOne: z.object({
+    base: z.number().min(0).max(1),
+    scenario: z.number().min(0).max(1),
+  }).optional(),
+  grades: z.object({
+    academic: z.object({ base: z.string(), scenario: z.string() }),
+    awards: z.object({ base: z.string(), scenario: z.string() }),
+  }),
+});
+
+export type TestScoreComparison = z.infer<typeof testScoreComparisonSchema>;
+export type CollegeCategory = z.infer<typeof collegeCategorySchema>;
+export type TestPolicy = z.infer<typeof testPolicySchema>;
+export type ChanceFactor = z.infer<typeof chanceFactorSchema>;
+export type ChanceFactorContribution = z.infer<typeof chanceFactorContributionSchema>;
+export type TestingAdvice = z.infer<typeof testingAdviceSchema>;
 export type CollegeChance = z.infer<typeof collegeChanceSchema>;
+export type ListOutcome = z.infer<typeof listOutcomeSchema>;
+export type CollegeSuggestion = z.infer<typeof collegeSuggestionSchema>;
+export type ListBalance = z.infer<typeof listBalanceSchema>;
+export type CollegeRecommendation = z.infer<typeof collegeRecommendationSchema>;
 export type AssessmentSection = z.infer<typeof assessmentSectionSchema>;
 export type AnalysisResult = z.infer<typeof analysisResultSchema>;
+export type AwardLevel = z.infer<typeof awardLevelSchema>;
+export type WhatIfChanges = z.infer<typeof whatIfChangesSchema>;
+export type WhatIfCollege = z.infer<typeof whatIfCollegeSchema>;
+export type WhatIfResult = z.infer<typeof whatIfResultSchema>;
+
+// Schema for the college catalog dataset (server/data/colleges.json)
+export const scoreRangeSchema = z.object({
+  p25: z.number(),
+  p75: z.number(),
+});
+
+export const hookWeightsSchema = z.object({
+  legacy: z.number().optional(),
+  firstGeneration: z.number().optional(),
+  pellEligible: z.number().optional(),
+  recruitedAthlete: z.number().optional(),
+  facultyChild: z.number().optional(),
+  underrepresentedMinority: z.number().optional(),
+});
+
+// A program admitted separately from the rest of the college: direct-admit programs review applicants
+// for the major itself, capped majors limit enrollment so entry is competitive and switching in later is hard
+export const majorProgramSchema = z.object({
+  name: z.string().min(1),
+  // Matched against the student's major, lowercased
+  keywords: z.array(z.string().min(1)).min(1),
+  admission: z.enum(["direct-admit", "capped"]),
+  acceptanceRate: z.number().min(0).max(1),
+});
+
+export const collegeCatalogEntrySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  aliases: z.array(z.string()).default([]),
+  acceptanceRate: z.number().min(0).max(1),
+  control: z.enum(["public", "private"]),
+  state: z.string().length(2),
+  focus: z.enum(["comprehensive", "stem", "liberal-arts"]).default("comprehensive"),
+  // Whether the college combines the best section scores across sittings
+  superscore: z.object({
+    sat: z.boolean(),
+    act: z.boolean(),
+  }).default({ sat: true, act: true }),
+  satRange: scoreRangeSchema.optional(),
+  actRange: scoreRangeSchema.optional(),
+  testPolicy: testPolicySchema.default("optional"),
+  // Published admit rate by residency, where the college reports it
+  residencyAcceptanceRates: z.object({
+    inState: z.number().min(0).max(1).optional(),
+    outOfState: z.number().min(0).max(1).optional(),
+    international: z.number().min(0).max(1).optional(),
+  }).default({}),
+  // Largest share of the entering class open to out-of-state and international students, set by law or policy
+  nonresidentCap: z.number().min(0).max(1).optional(),
+  // Tuition reciprocity programs: Western Undergraduate Exchange and Midwest Student Exchange Program
+  reciprocity: z.array(z.enum(["WUE", "MSEP"])).default([]),
+  // Programs more selective than the college overall
+  programs: z.array(majorProgramSchema).default([]),
+  // Application rounds offered; unknown when missing
+  rounds: z.array(applicationRoundSchema).min(1).optional(),
+  // College-specific log-odds weights for hooks, overriding the defaults for its control type
+  hookWeights: hookWeightsSchema.default({}),
+  // Published admit rate by round, where the college reports it
+  roundAcceptanceRates: z.object({
+    ED: z.number().min(0).max(1).optional(),
+    EA: z.number().min(0).max(1).optional(),
+    REA: z.number().min(0).max(1).optional(),
+    RD: z.number().min(0).max(1).optional(),
+  }).default({}),
+});
+
+export const collegeCatalogSchema = z.object({
+  version: z.string().min(1),
+  updatedAt: z.string(),
+  source: z.string().optional(),
+  colleges: z.array(collegeCatalogEntrySchema),
+});
+
+export type ScoreRange = z.infer<typeof scoreRangeSchema>;
+export type HookWeights = z.infer<typeof hookWeightsSchema>;
+export type MajorProgram = z.infer<typeof majorProgramSchema>;
+export type CollegeCatalogEntry = z.infer<typeof collegeCatalogEntrySchema>;
+export type CollegeCatalog = z.infer<typeof collegeCatalogSchema>;
+
+// Leadership in an activity, from the role held (see server/leadership.ts)
+export const leadershipLevelSchema = z.enum(["founder", "officer", "committee-lead", "member"]);
+
+export const LEADERSHIP_LEVEL_LABELS: Record<z.infer<typeof leadershipLevelSchema>, string> = {
+  founder: "Founder or top leader",
+  officer: "Officer",
+  "committee-lead": "Committee lead",
+  member: "Member",
+};
+
+// How far the activity reaches beyond the student's school
+export const leadershipScopeSchema = z.enum(["school", "regional", "state", "national", "international"]);
+
+// Scoring rules (server/data/scoringRules.json): the thresholds, point tables and keyword lists behind the
+// grades and the chance model, kept out of code so they can be tuned and versioned
+export const letterGradeSchema = z.enum(["A+", "A", "A-", "B+", "B", "B-", "C+", "C", "C-", "D+", "D"]);
+
+// Rows run from the highest minimum to the lowest; a value earns the first row whose minimum it reaches
+const descendingRows = <T extends { min: number }>(rows: T[]) =>
+  rows.every((row, index) => index === 0 || row.min < rows[index - 1].min);
+
+export const pointsTableSchema = z.array(z.object({
+  min: z.number(),
+  points: z.number(),
+})).min(1).refine(descendingRows, "Rows must be ordered from the highest min to the lowest");
+
+// Values below every row get the last row's grade
+export const gradeTableSchema = z.array(z.object({
+  min: z.number(),
+  grade: letterGradeSchema,
+})).min(1).refine(descendingRows, "Rows must be ordered from the highest min to the lowest");
+
+const courseLevelRulesSchema = z.object({
+  bonus: z.number().min(0),
+  rigor: z.number().min(0).max(1),
+});
+
+const testCutoffSchema = z.object({
+  sat: z.number().int().min(400).max(1600),
+  act: z.number().int().min(1).max(36),
+});
+
+const fitScoreSchema = z.number().min(0).max(1);
+
+const keywordsSchema = z.array(z.string().min(1).transform(keyword => keyword.toLowerCase())).min(1);
+
+export const scoringRulesSchema = z.object({
+  version: z.string().min(1),
+  updatedAt: z.string(),
+  description: z.string().optional(),
+  academic: z.object({
+    // Unweighted GPA on the 4.0 scale
+    gpa: pointsTableSchema,
+    // Stronger test on the SAT scale
+    testScore: pointsTableSchema,
+    missingTestScorePoints: z.number(),
+    apCourses: pointsTableSchema,
+    courseRigor: z.record(z.string(), z.number()),
+    transcript: z.object({
+      // Unweighted points for each letter grade
+      gradePoints: z.record(z.string(), z.number().min(0)).refine(
+        points => courseGradeSchema.options.every(grade => grade === "P" || grade in points),
+        "Every letter grade except P needs points"),
+      // Weighted GPA bonus, and how much the course counts toward rigor (0-1), by course level
+      levels: z.object({
+        regular: courseLevelRulesSchema,
+        honors: courseLevelRulesSchema,
+        ap: courseLevelRulesSchema,
+        ib_hl: courseLevelRulesSchema,
+        ib_sl: courseLevelRulesSchema,
+        dual_enrollment: courseLevelRulesSchema,
+      }),
+      // Derived courseRigor by the rigor share of all courses
+      rigor: z.array(z.object({
+        min: z.number().min(0).max(1),
+        rigor: courseRigorSchema,
+      })).min(1).refine(descendingRows, "Rows must be ordered from the highest min to the lowest"),
+    }),
+    // Trajectory across term GPAs on the 4.0 scale
+    trend: z.object({
+      minTerms: z.number().int().min(2),
+      // Change from first to last term that counts as a trend rather than noise
+      changeThreshold: z.number().positive(),
+      // Drop from one term to the next that counts as a dip
+      dipThreshold: z.number().positive(),
+      // Added to the academic points
+      points: z.object({
+        upward: z.number(),
+        steady: z.number(),
+        downward: z.number(),
+        dip: z.number(),
+      }),
+    }),
+    // Rigor and rank relative to the student's school
+    schoolContext: z.object({
+      // AP/IB points by the share of the offered courses taken, used when it beats the count alone
+      availableShare: pointsTableSchema,
+      // Share of the offered courses the plan asks students to reach, and the share that counts as a strength
+      targetShare: z.number().min(0).max(1),
+      strongShare: z.number().min(0).max(1),
+      // Added to the academic points by class rank percentile (99 for the top 1%), at schools that rank
+      rankPercentile: pointsTableSchema,
+    }),
+    // Weighted minus unweighted GPA
+    weightedGpaBonus: pointsTableSchema,
+    grades: gradeTableSchema,
+  }),
+  extracurricular: z.object({
+    // Activities are weighed by impact tier rather than counted
+    tiers: z.object({
+      // Phrases that show recognition for the activity ("finalist", "published"), at the activity's scope
+      distinctionKeywords: keywordsSchema,
+      // Years and total hours that together count as sustained commitment
+      commitment: z.object({
+        minYears: z.number().positive(),
+        minTotalHours: z.number().positive(),
+      }),
+      points: z.object({
+        1: z.number().min(0),
+        2: z.number().min(0),
+        3: z.number().min(0),
+        4: z.number().min(0),
+      }),
+      // Each activity after the strongest adds this share of its points
+      additionalActivityShare: z.number().min(0).max(1),
+      maxPoints: z.number().min(0),
+    }),
+    commitment: z.object({
+      // Weeks a year assumed when not given, and for activities done over the summer
+      defaultWeeksPerYear: z.number().positive().max(52),
+      summerWeeksPerYear: z.number().positive().max(52),
+      // Larger figures are treated as typos
+      maxYears: z.number().positive(),
+      maxHoursPerWeek: z.number().positive(),
+      // Depth: points for the total lifetime hours of the most time-intensive activity
+      totalHours: pointsTableSchema,
+    }),
+    majorRelatedPoints: z.number(),
+    longTermYears: z.number().positive(),
+    significantHoursPerWeek: z.number().positive(),
+    leadership: z.object({
+      // Matched against the role, most specific phrase first ("vice president" is an officer, not a president)
+      levels: z.array(z.object({
+        level: leadershipLevelSchema.exclude(["member"]),
+        points: z.number().min(0),
+        roleKeywords: keywordsSchema,
+        // Phrases in the description that show the level without the title ("founded the club")
+        descriptionKeywords: z.array(z.string().min(1)).default([]),
+      })).min(1),
+      // Matched against the whole activity; a role scope not listed counts as school
+      scopes: z.array(z.object({
+        scope: leadershipScopeSchema.exclude(["school"]),
+        multiplier: z.number().min(1),
+        keywords: keywordsSchema,
+      })),
+      // Organizations named for their national reach whose officers lead a school chapter
+      chapterOrganizations: z.array(z.string().min(1)).default([]),
+      // Each role after the strongest adds this share of its points
+      additionalRoleShare: z.number().min(0).max(1),
+      maxPoints: z.number().min(0),
+    }),
+    grades: gradeTableSchema,
+  }),
+  awards: z.object({
+    count: pointsTableSchema,
+    // Prestige of awards the knowledge base doesn't recognize comes from their level
+    prestige: z.object({
+      levels: z.object({
+        school: z.number().min(0).max(1),
+        district: z.number().min(0).max(1),
+        state: z.number().min(0).max(1),
+        national: z.number().min(0).max(1),
+        international: z.number().min(0).max(1),
+      }),
+      // Points for an award of prestige 1
+      maxPoints: z.number().min(0),
+      // Each award after the most prestigious adds this share of its points
+      additionalAwardShare: z.number().min(0).max(1),
+    }),
+    recentPoints: z.number(),
+    majorRelatedPoints: z.number(),
+    // An award this many years back or later counts as recent
+    recentYears: z.number().int().min(0),
+    grades: gradeTableSchema,
+  }),
+  overall: z.object({
+    academic: z.number().min(0),
+    extracurricular: z.number().min(0),
+    awards: z.number().min(0),
+    // Letter grade for the weighted average of the section grades, on a scale from D (1) to A+ (12)
+    grades: gradeTableSchema,
+  }).refine(weights => Math.abs(weights.academic + weights.extracurricular + weights.awards - 1) < 1e-9,
+    "Overall weights must add up to 1"),
+  // Majors are placed in areas by the major taxonomy (server/data/majorTaxonomy.json)
+  fit: z.object({
+    stem: z.object({
+      // Any one of these is enough
+      minGpa: z.number(),
+      minSat: z.number(),
+      minAct: z.number(),
+    }),
+    humanities: z.object({
+      minGpa: z.number(),
+    }),
+    business: z.object({
+      // Business schools, matched against the college's name and aliases
+      schoolKeywords: keywordsSchema,
+    }),
+  }),
+  chanceModel: z.object({
+    // Change in log-odds per letter grade above the applicant pool, and per fit match or residency case
+    coefficients: z.object({
+      academic: z.number(),
+      extracurricular: z.number(),
+      awards: z.number(),
+      // Per program/institution fit match (STEM major at a STEM school, humanities at a liberal arts college...)
+      fit: z.number(),
+      // In-state applicants at public universities
+      inStatePublic: z.number(),
+      // Out-of-state applicants at the most selective public universities
+      outOfStateSelectivePublic: z.number(),
+      // Out-of-state applicants at public universities that cap nonresident enrollment
+      cappedNonresidentPublic: z.number(),
+      // International applicants, where the college doesn't publish an international admit rate
+      international: z.number(),
+    }),
+    // Typical applicant strength by acceptance rate, in letter-grade units above a B, by increasing rate
+    applicantPoolStrength: z.array(z.object({
+      acceptanceRate: z.number().min(0).max(1),
+      strength: z.number(),
+    })).min(1).refine(rows => rows.every((row, index) => index === 0 || row.acceptanceRate > rows[index - 1].acceptanceRate),
+      "Rows must be ordered by increasing acceptance rate"),
+    // Acceptance rate assumed for colleges missing from the catalog
+    unlistedAcceptanceRate: z.number().gt(0).lt(1),
+    // Standard error of the log-odds, widened for what the model can't see
+    standardErrors: z.object({
+      base: z.number().positive(),
+      // Added at colleges admitting fewer than selectiveAcceptanceRate, where holistic review dominates
+      selective: z.number().min(0),
+      selectiveAcceptanceRate: z.number().min(0).max(1),
+      unlisted: z.number().min(0),
+      // Listed colleges that publish no range for the student's test
+      noTestComparison: z.number().min(0),
+    }),
+    // Log-odds for where the score falls against the college's middle 50%
+    testScores: z.object({
+      above: z.number(),
+      // Per range-width from the middle of the range, for scores within it
+      withinSlope: z.number().min(0),
+      below: z.number(),
+      // More than a full range-width below the 25th percentile
+      farBelow: z.number(),
+      // Not sending a score to a test-optional college
+      withheld: z.number(),
+    }).refine(scores => scores.farBelow <= scores.below && scores.below <= 0 && scores.above >= 0,
+      "Test score adjustments must not rise as the score falls"),
+    // Share of the log-odds gap between a published rate and the overall rate credited to the round,
+    // program or residency itself rather than to a stronger or hooked pool
+    passThrough: z.object({
+      round: z.number().min(0).max(1),
+      program: z.number().min(0).max(1),
+      residency: z.number().min(0).max(1),
+    }),
+    // Log-odds for a round the college offers without publishing round-level results
+    typicalRoundEffects: z.object({
+      ED: z.number(),
+      REA: z.number(),
+      EA: z.number(),
+      RD: z.number(),
+      rolling: z.number(),
+    }),
+    // Publics admitting fewer than this without published residency rates count as selective
+    selectivePublicRate: z.number().min(0).max(1),
+    // Log-odds for each hook where the catalog records no college-specific weight
+    hookWeights: z.object({
+      public: hookWeightsSchema.required(),
+      private: hookWeightsSchema.required(),
+      // Recruited athletes at colleges missing from the catalog
+      unlistedRecruitedAthlete: z.number(),
+    }),
+  }),
+  listBalance: z.object({
+    // Colleges this selective are reaches whatever the estimate
+    alwaysReachAcceptanceRate: z.number().min(0).max(1),
+    // Lowest point estimates for a target and a likely
+    targetProbability: z.number().min(0).max(1),
+    likelyProbability: z.number().min(0).max(1),
+    // A safety needs a high floor as well as a high estimate, at a college that admits most applicants
+    safety: z.object({
+      probability: z.number().min(0).max(1),
+      lowerBound: z.number().min(0).max(1),
+      minAcceptanceRate: z.number().min(0).max(1),
+    }),
+    minListSize: z.number().int().min(1),
+    minLikelyOrSafer: z.number().int().min(1),
+    suggestionsPerCategory: z.number().int().min(0),
+  }).refine(balance => balance.targetProbability < balance.likelyProbability && balance.likelyProbability <= balance.safety.probability,
+    "Target, likely and safety cutoffs must increase in that order"),
+  listOutcomes: z.object({
+    // Variance each college's decision shares with how the application reads overall
+    decisionCorrelation: z.number().min(0).lt(1),
+    simulationTrials: z.number().int().min(1000),
+  }),
+  // Cutoffs for the strengths and weaknesses listed in the assessment
+  sections: z.object({
+    academic: z.object({
+      strong: z.object({
+        gpa: z.number(),
+        sat: z.number(),
+        act: z.number(),
+        apCourses: z.number(),
+        // Top X% of the class
+        rankTopPercent: z.number().min(0).max(100),
+      }),
+      weak: z.object({
+        gpa: z.number(),
+        sat: z.number(),
+        act: z.number(),
+        // Fewer AP/IB courses is limited rigor, unless the school offers few
+        apCourses: z.number().int().min(0),
+        rankTopPercent: z.number().min(0).max(100),
+      }),
+      // Either test reaching the cutoff is enough
+      testScores: z.object({
+        // Competitive for selective colleges; below it, retesting is advised where scores are read
+        competitive: testCutoffSchema,
+        solid: testCutoffSchema,
+        // High enough to offset a B-range academic record
+        offsetsGpa: testCutoffSchema,
+      }),
+    }),
+    extracurricular: z.object({
+      minActivities: z.number().int().min(0),
+      manyActivities: z.number().int().min(0),
+    }),
+    awards: z.object({
+      // Knowledge-base prestige of an award called out by name
+      topPrestige: z.number().min(0).max(1),
+      strongCount: z.number().int().min(0),
+      minCount: z.number().int().min(0),
+    }),
+  }),
+  // Ranking of catalog colleges to recommend, by fit scores from 0 to 1
+  recommendations: z.object({
+    // How much each part of fit counts toward the overall fit score
+    weights: z.object({
+      chance: z.number().min(0),
+      major: z.number().min(0),
+      residency: z.number().min(0),
+      preferences: z.number().min(0),
+    }).refine(weights => Math.abs(weights.chance + weights.major + weights.residency + weights.preferences - 1) < 1e-9,
+      "Recommendation weights must add up to 1"),
+    // Chance fit peaks at a realistic-but-ambitious estimate and falls off toward long shots and sure things
+    idealProbability: z.number().gt(0).lt(1),
+    // Colleges that don't match the major's area
+    majorFit: z.object({
+      stemSchool: fitScoreSchema,
+      liberalArtsStem: fitScoreSchema,
+      liberalArtsOther: fitScoreSchema,
+      general: fitScoreSchema,
+    }),
+    residencyFit: z.object({
+      reciprocity: fitScoreSchema,
+      outOfState: fitScoreSchema,
+      // Public universities cap international enrollment and rarely offer them aid
+      internationalPublic: fitScoreSchema,
+      internationalPrivate: fitScoreSchema,
+    }),
+    // Every college fits equally when no preferences are stated
+    noPreferences: fitScoreSchema,
+  }),
+});
+
+export type LeadershipLevel = z.infer<typeof leadershipLevelSchema>;
+export type LeadershipScope = z.infer<typeof leadershipScopeSchema>;
+export type ActivityTierLevel = z.infer<typeof activityTierLevelSchema>;
+export type ActivityTier = z.infer<typeof activityTierSchema>;
+export type ActivityCommitment = z.infer<typeof activityCommitmentSchema>;
+export type LetterGrade = z.infer<typeof letterGradeSchema>;
+export type PointsTable = z.infer<typeof pointsTableSchema>;
+export type GradeTable = z.infer<typeof gradeTableSchema>;
+export type ScoringRules = z.infer<typeof scoringRulesSchema>;
+
+// Major taxonomy (server/data/majorTaxonomy.json): families of majors, grouped by CIP code, with the
+// activities and awards that show interest in them
+export const majorAreaSchema = z.enum(["stem", "humanities", "business", "other"]);
+
+export const majorFamilySchema = z.object({
+  id: z.string().min(1),
+  // Classification of Instructional Programs code: a two-digit family ("11") or a narrower series ("51.38")
+  cip: z.string().regex(/^\d{2}(\.\d{2,4})?$/, "CIP codes look like 11 or 51.38"),
+  name: z.string().min(1),
+  // Area used for institutional fit
+  area: majorAreaSchema,
+  // Major names and synonyms, matched against the intended major
+  majors: z.array(z.string().min(1)).min(1),
+  // Subject words that mark an activity or award as related
+  keywords: z.array(z.string().min(1)).min(1),
+  // Typical activities, clubs and programs
+  activities: z.array(z.string().min(1)).default([]),
+  // Competitions and honors in the field
+  awards: z.array(z.string().min(1)).default([]),
+  // Completes "Consider ..." in the improvement plan
+  suggestions: z.string().min(1),
+  // Completes "For <major>, ..." in the improvement plan's major-specific item
+  advice: z.string().min(1).optional(),
+  // What selective programs look for, quoted in the overall assessment
+  readerNote: z.string().min(1).optional(),
+});
+
+export const majorTaxonomySchema = z.object({
+  version: z.string().min(1),
+  updatedAt: z.string(),
+  families: z.array(majorFamilySchema).min(1),
+});
+
+export type MajorArea = z.infer<typeof majorAreaSchema>;
+export type MajorFamily = z.infer<typeof majorFamilySchema>;
+export type MajorTaxonomy = z.infer<typeof majorTaxonomySchema>;
+
+// Award knowledge base (server/data/awardKnowledgeBase.json): well-known competitions and programs with
+// their level and prestige, so mislabeled awards can be corrected
+const awardStageSchema = z.object({
+  name: z.string().min(1),
+  // Matched against the award title ("gold key", "finalist")
+  keywords: keywordsSchema,
+  level: awardLevelSchema,
+  prestige: z.number().min(0).max(1),
+});
+
+export const knownAwardSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  // Names and abbreviations the title may use
+  aliases: keywordsSchema,
+  // Level and prestige when no stage matches
+  level: awardLevelSchema,
+  prestige: z.number().min(0).max(1),
+  // Rounds or distinctions with their own level, the most selective first
+  stages: z.array(awardStageSchema).default([]),
+});
+
+export const awardKnowledgeBaseSchema = z.object({
+  version: z.string().min(1),
+  updatedAt: z.string(),
+  awards: z.array(knownAwardSchema).min(1),
+  // Words in an unrecognized title that point to a school award ("honor roll", "student of the month")
+  schoolKeywords: keywordsSchema,
+});
+
+export type KnownAward = z.infer<typeof knownAwardSchema>;
+export type AwardKnowledgeBase = z.infer<typeof awardKnowledgeBaseSchema>;